@@ -0,0 +1,266 @@
+/**
+ * 自定义成功断言
+ *
+ * 在状态码和失败标记之外，按目标配置额外判断"保活成功"的含义，
+ * 例如确认 Gradio 应用真正渲染出来，而不只是 Hugging Face 返回了一个页面。
+ *
+ * 支持的断言类型：
+ * - bodyContains / bodyNotContains：响应体匹配 / 不匹配正则
+ * - selector：响应体中存在匹配 CSS 选择器的元素（cheerio）
+ * - header：响应头匹配正则
+ * - jsonPath：响应体 JSON 中指定路径的值等于期望值
+ * - responseTime：响应时间不超过 N 毫秒
+ */
+
+import * as cheerio from "cheerio";
+
+export type Assertion =
+  | { type: "bodyContains"; pattern: string; flags?: string }
+  | { type: "bodyNotContains"; pattern: string; flags?: string }
+  | { type: "selector"; selector: string }
+  | { type: "header"; name: string; pattern: string; flags?: string }
+  | { type: "jsonPath"; path: string; equals: unknown }
+  | { type: "responseTime"; maxMs: number };
+
+/**
+ * 断言的输入：一次保活请求的响应
+ */
+export interface AssertionContext {
+  statusCode: number;
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+  responseTime: number;
+}
+
+const ASSERTION_TYPES = new Set([
+  "bodyContains",
+  "bodyNotContains",
+  "selector",
+  "header",
+  "jsonPath",
+  "responseTime",
+]);
+
+/**
+ * 解析形如 $.a.b[0]["c"] 的 JSON 路径（开头的 $ 可省略）
+ */
+function parseJsonPath(path: string): (string | number)[] {
+  const segments: (string | number)[] = [];
+  const withoutRoot = path.replace(/^\$/, "");
+  const normalized = withoutRoot === "" || /^[.[]/.test(withoutRoot)
+    ? withoutRoot
+    : `.${withoutRoot}`;
+  const pattern = /\.([^.[\]]+)|\[(\d+)\]|\[["']([^"']+)["']\]/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(normalized)) !== null) {
+    if (match.index !== lastIndex) {
+      throw new Error(`无效的 JSON 路径：${path}`);
+    }
+    lastIndex = pattern.lastIndex;
+    if (match[1] !== undefined) segments.push(match[1]);
+    else if (match[2] !== undefined) segments.push(Number(match[2]));
+    else segments.push(match[3]);
+  }
+
+  if (lastIndex !== normalized.length) {
+    throw new Error(`无效的 JSON 路径：${path}`);
+  }
+  return segments;
+}
+
+/**
+ * 按路径读取 JSON 值，路径不存在时返回 undefined
+ */
+function readJsonPath(data: unknown, path: string): unknown {
+  let current = data;
+  for (const segment of parseJsonPath(path)) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string | number, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * 读取响应头（多值时用逗号连接）
+ */
+function readHeader(
+  headers: AssertionContext["headers"],
+  name: string,
+): string | undefined {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value.join(", ") : value;
+}
+
+/**
+ * 检测响应是否包含失败标记
+ */
+export function containsFailureMarker(
+  responseBody: string,
+  failureMarkers: string[],
+): boolean {
+  return failureMarkers.some((marker) => responseBody.includes(marker));
+}
+
+/**
+ * 描述一条断言，用于日志和推送消息
+ */
+export function describeAssertion(assertion: Assertion): string {
+  switch (assertion.type) {
+    case "bodyContains":
+      return `响应体包含 /${assertion.pattern}/`;
+    case "bodyNotContains":
+      return `响应体不包含 /${assertion.pattern}/`;
+    case "selector":
+      return `存在元素 ${assertion.selector}`;
+    case "header":
+      return `响应头 ${assertion.name} 匹配 /${assertion.pattern}/`;
+    case "jsonPath":
+      return `${assertion.path} 等于 ${JSON.stringify(assertion.equals)}`;
+    case "responseTime":
+      return `响应时间不超过 ${assertion.maxMs}ms`;
+  }
+}
+
+/**
+ * 执行单条断言
+ * @returns 通过时返回 null，否则返回失败说明
+ */
+function checkAssertion(
+  assertion: Assertion,
+  context: AssertionContext,
+  loadHtml: () => cheerio.CheerioAPI,
+  parseJson: () => unknown,
+): string | null {
+  switch (assertion.type) {
+    case "bodyContains":
+      return new RegExp(assertion.pattern, assertion.flags).test(context.body)
+        ? null
+        : "未匹配";
+    case "bodyNotContains":
+      return new RegExp(assertion.pattern, assertion.flags).test(context.body)
+        ? "匹配到了禁止的内容"
+        : null;
+    case "selector":
+      return loadHtml()(assertion.selector).length > 0 ? null : "未找到元素";
+    case "header": {
+      const value = readHeader(context.headers, assertion.name);
+      if (value === undefined) return "响应头不存在";
+      return new RegExp(assertion.pattern, assertion.flags).test(value)
+        ? null
+        : `实际值为 ${value}`;
+    }
+    case "jsonPath": {
+      const actual = readJsonPath(parseJson(), assertion.path);
+      return JSON.stringify(actual) === JSON.stringify(assertion.equals)
+        ? null
+        : `实际值为 ${JSON.stringify(actual)}`;
+    }
+    case "responseTime":
+      return context.responseTime <= assertion.maxMs
+        ? null
+        : `实际为 ${context.responseTime}ms`;
+  }
+}
+
+/**
+ * 依次执行所有断言
+ * @returns 未通过的断言说明列表，全部通过时为空数组
+ */
+export function evaluateAssertions(
+  assertions: Assertion[],
+  context: AssertionContext,
+): string[] {
+  let html: cheerio.CheerioAPI | null = null;
+  let json: { value: unknown } | null = null;
+
+  // 按需解析，避免没有对应断言时的额外开销
+  const loadHtml = () => (html ??= cheerio.load(context.body));
+  const parseJson = () => {
+    if (!json) {
+      try {
+        json = { value: JSON.parse(context.body) };
+      } catch {
+        json = { value: undefined };
+      }
+    }
+    return json.value;
+  };
+
+  const failures: string[] = [];
+  for (const assertion of assertions) {
+    const failure = checkAssertion(assertion, context, loadHtml, parseJson);
+    if (failure) {
+      failures.push(`${describeAssertion(assertion)}：${failure}`);
+    }
+  }
+  return failures;
+}
+
+/**
+ * 校验断言配置
+ * @returns 错误说明列表，配置有效时为空数组
+ */
+export function validateAssertions(assertions: unknown): string[] {
+  if (!Array.isArray(assertions)) {
+    return ["assertions 必须是数组"];
+  }
+
+  const errors: string[] = [];
+  assertions.forEach((item, index) => {
+    const prefix = `assertions[${index}]`;
+    const assertion = item as Record<string, unknown>;
+
+    if (!assertion || !ASSERTION_TYPES.has(assertion.type as string)) {
+      errors.push(`${prefix}.type 无效：${JSON.stringify(assertion?.type)}`);
+      return;
+    }
+
+    const requireString = (field: string) => {
+      if (typeof assertion[field] !== "string" || !assertion[field]) {
+        errors.push(`${prefix}.${field} 必须是非空字符串`);
+        return false;
+      }
+      return true;
+    };
+
+    switch (assertion.type) {
+      case "bodyContains":
+      case "bodyNotContains":
+      case "header":
+        if (assertion.type === "header") requireString("name");
+        if (requireString("pattern")) {
+          try {
+            new RegExp(assertion.pattern as string, assertion.flags as string);
+          } catch (error) {
+            errors.push(`${prefix}.pattern 不是有效的正则：${error}`);
+          }
+        }
+        break;
+      case "selector":
+        requireString("selector");
+        break;
+      case "jsonPath":
+        if (requireString("path")) {
+          try {
+            parseJsonPath(assertion.path as string);
+          } catch (error) {
+            errors.push(`${prefix}.path ${(error as Error).message}`);
+          }
+        }
+        if (!("equals" in assertion)) {
+          errors.push(`${prefix}.equals 未设置`);
+        }
+        break;
+      case "responseTime":
+        if (
+          typeof assertion.maxMs !== "number" || !(assertion.maxMs > 0)
+        ) {
+          errors.push(`${prefix}.maxMs 必须是正数`);
+        }
+        break;
+    }
+  });
+  return errors;
+}
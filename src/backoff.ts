@@ -0,0 +1,103 @@
+/**
+ * 重试退避与熔断
+ *
+ * - 重试间隔按指数增长（retryBaseDelay × 2^(n-1)，不超过 retryMaxDelay），
+ *   并叠加随机抖动，避免多个实例在 Hugging Face 故障时同时重试
+ * - 熔断：连续 circuitBreakerThreshold 轮保活失败后打开熔断，
+ *   之后每多失败一轮，保活间隔翻倍（不超过 circuitBreakerMaxInterval）；
+ *   任意一轮成功即关闭熔断，恢复原有间隔
+ */
+
+import { circuitOpen } from "./metrics.js";
+import type { KeepAliveResult, Target } from "./target.js";
+
+export type CircuitState = "closed" | "open";
+
+/**
+ * 熔断器状态，供日志和状态接口使用
+ */
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  openedAt: number | null;
+  // 当前实际使用的保活间隔（毫秒）
+  currentInterval: number;
+}
+
+/**
+ * 计算第 attempt 次尝试失败后的重试等待时间（毫秒）
+ * 抖动比例为 retryJitter，例如 0.5 表示在 [50%, 100%] 之间随机
+ */
+export function getRetryDelay(target: Target, attempt: number): number {
+  const { retryBaseDelay, retryMaxDelay, retryJitter } = target.config;
+  const exponential = Math.min(
+    retryBaseDelay * 2 ** (attempt - 1),
+    retryMaxDelay,
+  );
+  return Math.round(exponential * (1 - retryJitter * Math.random()));
+}
+
+/**
+ * 根据连续失败轮数计算保活间隔
+ */
+function getWidenedInterval(target: Target): number {
+  const {
+    interval,
+    circuitBreakerThreshold,
+    circuitBreakerMaxInterval,
+  } = target.config;
+  const failures = target.status.consecutiveFailures;
+
+  if (circuitBreakerThreshold <= 0 || failures < circuitBreakerThreshold) {
+    return interval;
+  }
+
+  const widened = interval * 2 ** (failures - circuitBreakerThreshold + 1);
+  return Math.max(interval, Math.min(widened, circuitBreakerMaxInterval));
+}
+
+/**
+ * 一轮保活结束后更新熔断器
+ * degraded 不改变连续失败次数，因此也不改变熔断状态
+ */
+export function updateCircuitBreaker(
+  target: Target,
+  result: KeepAliveResult,
+): void {
+  if (result === "degraded") return;
+
+  const { name } = target.config;
+  const breaker = target.status.circuitBreaker;
+  const nextInterval = getWidenedInterval(target);
+  const nextState: CircuitState = nextInterval > target.config.interval
+    ? "open"
+    : "closed";
+
+  const fields = {
+    circuitState: nextState,
+    consecutiveFailures: target.status.consecutiveFailures,
+    intervalMs: nextInterval,
+  };
+
+  if (nextState === "open" && breaker.state === "closed") {
+    breaker.openedAt = Date.now();
+    target.log.warn(
+      `🔌 连续 ${target.status.consecutiveFailures} 轮保活失败，熔断已打开，保活间隔调整为 ${nextInterval / 1000}秒`,
+      fields,
+    );
+  } else if (nextState === "open" && nextInterval !== breaker.currentInterval) {
+    target.log.warn(
+      `🔌 熔断中（连续失败 ${target.status.consecutiveFailures} 轮），保活间隔调整为 ${nextInterval / 1000}秒`,
+      fields,
+    );
+  } else if (nextState === "closed" && breaker.state === "open") {
+    breaker.openedAt = null;
+    target.log.info(
+      `🔌 保活恢复成功，熔断已关闭，保活间隔恢复为 ${nextInterval / 1000}秒`,
+      fields,
+    );
+  }
+
+  breaker.state = nextState;
+  breaker.currentInterval = nextInterval;
+  circuitOpen.set({ target: name }, nextState === "open" ? 1 : 0);
+}
@@ -0,0 +1,444 @@
+/**
+ * 调度日历：cron 表达式、时间窗口与时区
+ *
+ * - schedule：标准 5 字段 cron 表达式（分 时 日 月 周），支持 *、列表、范围、步长、
+ *   月份与星期的英文缩写，以及 @hourly、@daily 等简写；未设置时按 interval 固定间隔执行
+ * - activeHours：只在这些时间窗口内保活；quietHours：这些时间窗口内不保活
+ *   时间窗口格式为 "09:00-18:00"，可在前面加星期限定，如 "mon-fri 09:00-18:00"；
+ *   结束早于开始表示跨越午夜，如 "22:00-06:00"
+ * - timezone：cron 与时间窗口使用的 IANA 时区，如 Asia/Shanghai，未设置时使用系统时区
+ */
+
+import type { TargetConfig } from "./config.js";
+
+/**
+ * 解析后的 cron 表达式
+ */
+interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  // 0 表示星期日
+  weekdays: Set<number>;
+  // 日与周都不以 * 开头时，满足其一即可（与 cron 一致）
+  dayRestricted: boolean;
+  weekdayRestricted: boolean;
+}
+
+/**
+ * 一个时间窗口，时间为一天中的分钟数
+ */
+interface TimeWindow {
+  weekdays: Set<number>;
+  start: number;
+  end: number;
+}
+
+/**
+ * 某一时刻在指定时区的日期与时间
+ */
+interface LocalTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number;
+}
+
+/**
+ * 按目标配置生成的日历
+ */
+export interface Calendar {
+  // 实际使用的时区
+  timezone: string;
+  // 是否使用 cron 表达式（否则按 interval 固定间隔）
+  usesCron: boolean;
+  // 该时刻是否允许保活（在 activeHours 内且不在 quietHours 内）
+  isAllowed(time: number): boolean;
+  // 不早于 time 的第一个允许保活的时刻（精确到分钟）
+  nextAllowed(time: number): number | null;
+  // 晚于 time 的第一个 cron 触发时刻
+  nextCronTime(time: number): number | null;
+  // 按时区格式化，如 2026-10-19 09:00:00
+  format(time: number): string;
+}
+
+export type CalendarConfig = Pick<
+  TargetConfig,
+  "schedule" | "activeHours" | "quietHours" | "timezone"
+>;
+
+const MINUTE = 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+
+// 查找下一次 cron 触发时刻时最多检查的步数（约 5 年的小时数，足以覆盖 2 月 29 日）
+const MAX_CRON_STEPS = 5 * 366 * 24 + 60;
+
+// 查找下一个允许的时刻时最多检查的步数（每步至少一分钟，足以覆盖一周多一天）
+const MAX_WINDOW_STEPS = 8 * DAY_MINUTES;
+
+// 在时间窗口限制下查找下一次 cron 触发时刻的最长范围（与 MAX_CRON_STEPS 一致，约 5 年）
+const MAX_RUN_SEARCH = 5 * 366 * DAY_MINUTES * MINUTE;
+
+const CRON_MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = [
+  "jan", "feb", "mar", "apr", "may", "jun",
+  "jul", "aug", "sep", "oct", "nov", "dec",
+];
+const WEEKDAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+// ==================== 解析 ====================
+
+/**
+ * 解析 cron 的单个值，支持数字与英文缩写
+ */
+function parseCronValue(
+  text: string,
+  names: string[] | null,
+  offset: number,
+): number {
+  const index = names?.indexOf(text.toLowerCase()) ?? -1;
+  if (index !== -1) return index + offset;
+  if (!/^\d+$/.test(text)) throw new Error(`无效的值 "${text}"`);
+  return Number(text);
+}
+
+/**
+ * 解析 cron 的一个字段
+ * @param offset 英文缩写对应的起始数字（月份从 1 开始，星期从 0 开始）
+ */
+function parseCronField(
+  text: string,
+  min: number,
+  max: number,
+  names: string[] | null = null,
+  offset = 0,
+): Set<number> {
+  const values = new Set<number>();
+
+  for (const item of text.split(",")) {
+    const [range, stepText, extra] = item.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (extra !== undefined || !Number.isInteger(step) || step < 1) {
+      throw new Error(`无效的步长 "${item}"`);
+    }
+
+    let from: number;
+    let to: number;
+    if (range === "*") {
+      [from, to] = [min, max];
+    } else {
+      const [start, end, rest] = range.split("-");
+      if (rest !== undefined || start === "") {
+        throw new Error(`无效的范围 "${item}"`);
+      }
+      from = parseCronValue(start, names, offset);
+      // a/n 表示从 a 开始到最大值
+      to = end !== undefined
+        ? parseCronValue(end, names, offset)
+        : stepText !== undefined
+        ? max
+        : from;
+    }
+
+    if (from < min || to > max || from > to) {
+      throw new Error(`"${item}" 超出范围 ${min}-${max}`);
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * 解析 cron 表达式
+ * @throws Error 表达式无效时抛出
+ */
+function parseCron(text: string): CronExpression {
+  const expanded = CRON_MACROS[text.trim().toLowerCase()] ?? text;
+  const fields = expanded.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error("应有 5 个字段：分 时 日 月 周");
+  }
+
+  const [minute, hour, day, month, weekday] = fields;
+  const weekdays = parseCronField(weekday, 0, 7, WEEKDAY_NAMES);
+  // 7 与 0 都表示星期日
+  if (weekdays.delete(7)) weekdays.add(0);
+
+  return {
+    minutes: parseCronField(minute, 0, 59),
+    hours: parseCronField(hour, 0, 23),
+    days: parseCronField(day, 1, 31),
+    months: parseCronField(month, 1, 12, MONTH_NAMES, 1),
+    weekdays,
+    dayRestricted: !day.startsWith("*"),
+    weekdayRestricted: !weekday.startsWith("*"),
+  };
+}
+
+/**
+ * 解析 HH:MM，允许 24:00 表示一天结束
+ */
+function parseClock(text: string): number {
+  const match = text.match(/^(\d{1,2}):(\d{2})$/);
+  const hour = Number(match?.[1]);
+  const minute = Number(match?.[2]);
+  if (!match || minute > 59 || hour > 24 || (hour === 24 && minute > 0)) {
+    throw new Error(`无效的时间 "${text}"，应为 HH:MM`);
+  }
+  return hour * 60 + minute;
+}
+
+/**
+ * 解析时间窗口，如 "09:00-18:00"、"mon-fri 09:00-18:00"、"sat,sun 22:00-06:00"
+ * @throws Error 格式无效时抛出
+ */
+function parseTimeWindow(text: string): TimeWindow {
+  const parts = text.trim().split(/\s+/);
+  if (parts.length > 2) {
+    throw new Error("格式应为 [星期] HH:MM-HH:MM");
+  }
+
+  const hours = parts.pop()!;
+  const weekdays = parts.length > 0
+    ? parseCronField(parts[0], 0, 7, WEEKDAY_NAMES)
+    : new Set([0, 1, 2, 3, 4, 5, 6]);
+  if (weekdays.delete(7)) weekdays.add(0);
+
+  const [start, end, rest] = hours.split("-");
+  if (end === undefined || rest !== undefined) {
+    throw new Error(`无效的时间范围 "${hours}"，应为 HH:MM-HH:MM`);
+  }
+  const window = { weekdays, start: parseClock(start), end: parseClock(end) };
+  if (window.start === window.end) {
+    throw new Error("开始与结束时间不能相同");
+  }
+  return window;
+}
+
+// ==================== 计算 ====================
+
+/**
+ * 创建读取指定时区本地时间的函数
+ * @throws RangeError 时区无效时抛出
+ */
+function createLocalTimeReader(timezone: string): (time: number) => LocalTime {
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+    weekday: "short",
+  });
+
+  return (time) => {
+    const parts: Record<string, string> = {};
+    for (const part of formatter.formatToParts(time)) {
+      parts[part.type] = part.value;
+    }
+    return {
+      year: Number(parts.year),
+      month: Number(parts.month),
+      day: Number(parts.day),
+      hour: Number(parts.hour),
+      minute: Number(parts.minute),
+      second: Number(parts.second),
+      weekday: WEEKDAY_NAMES.indexOf(parts.weekday.toLowerCase()),
+    };
+  };
+}
+
+/**
+ * 本地时间是否落在 cron 的日期与小时内（不检查分钟）
+ */
+function matchesCronHour(cron: CronExpression, local: LocalTime): boolean {
+  if (!cron.months.has(local.month) || !cron.hours.has(local.hour)) {
+    return false;
+  }
+  const dayMatches = cron.days.has(local.day);
+  const weekdayMatches = cron.weekdays.has(local.weekday);
+  if (cron.dayRestricted && cron.weekdayRestricted) {
+    return dayMatches || weekdayMatches;
+  }
+  return dayMatches && weekdayMatches;
+}
+
+/**
+ * 本地时间是否在时间窗口内，跨越午夜的窗口按开始那天的星期计算
+ */
+function inWindow(window: TimeWindow, local: LocalTime): boolean {
+  const minute = local.hour * 60 + local.minute;
+  if (window.start < window.end) {
+    return window.weekdays.has(local.weekday) &&
+      minute >= window.start && minute < window.end;
+  }
+  return (window.weekdays.has(local.weekday) && minute >= window.start) ||
+    (window.weekdays.has((local.weekday + 6) % 7) && minute < window.end);
+}
+
+/**
+ * 根据目标配置创建日历
+ * @throws Error cron 表达式、时间窗口或时区无效时抛出
+ */
+export function createCalendar(config: CalendarConfig): Calendar {
+  const timezone = config.timezone ||
+    Intl.DateTimeFormat().resolvedOptions().timeZone;
+  let readLocalTime: (time: number) => LocalTime;
+  try {
+    readLocalTime = createLocalTimeReader(timezone);
+  } catch {
+    throw new Error(`无效的时区 "${timezone}"`);
+  }
+
+  const withField = <T>(field: string, text: string, parse: (text: string) => T): T => {
+    try {
+      return parse(text);
+    } catch (error) {
+      throw new Error(
+        `${field} "${text}" 无效：${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  };
+  const cron = config.schedule
+    ? withField("schedule", config.schedule, parseCron)
+    : null;
+  const active = config.activeHours.map((text) =>
+    withField("activeHours", text, parseTimeWindow)
+  );
+  const quiet = config.quietHours.map((text) =>
+    withField("quietHours", text, parseTimeWindow)
+  );
+
+  const allowedAt = (local: LocalTime): boolean =>
+    (active.length === 0 || active.some((window) => inWindow(window, local))) &&
+    !quiet.some((window) => inWindow(window, local));
+  const isAllowed = (time: number): boolean =>
+    (active.length === 0 && quiet.length === 0) ||
+    allowedAt(readLocalTime(time));
+
+  // 是否允许只会在窗口的开始、结束与午夜（星期变化）时改变
+  const boundaries = [0, ...[...active, ...quiet].flatMap((window) => [
+    window.start,
+    window.end % DAY_MINUTES,
+  ])];
+
+  return {
+    timezone,
+    usesCron: cron !== null,
+    isAllowed,
+
+    nextAllowed(time) {
+      if (isAllowed(time)) return time;
+      // 时间窗口精确到分钟，每次直接跳到下一个边界
+      let candidate = Math.ceil(time / MINUTE) * MINUTE;
+      for (let step = 0; step < MAX_WINDOW_STEPS; step++) {
+        const local = readLocalTime(candidate);
+        if (allowedAt(local)) return candidate;
+        const minute = local.hour * 60 + local.minute;
+        const wait = Math.min(
+          ...boundaries.map((boundary) =>
+            (boundary - minute + DAY_MINUTES) % DAY_MINUTES || DAY_MINUTES
+          ),
+        );
+        candidate += wait * MINUTE;
+      }
+      return null;
+    },
+
+    nextCronTime(time) {
+      if (!cron) return null;
+      let candidate = Math.floor(time / MINUTE) * MINUTE + MINUTE;
+      for (let step = 0; step < MAX_CRON_STEPS; step++) {
+        const local = readLocalTime(candidate);
+        if (!matchesCronHour(cron, local)) {
+          // 跳到下一个整点（按本地分钟计算，兼容非整小时的时区偏移）
+          candidate += (60 - local.minute) * MINUTE;
+          continue;
+        }
+        if (cron.minutes.has(local.minute)) return candidate;
+        candidate += MINUTE;
+      }
+      return null;
+    },
+
+    format(time) {
+      const local = readLocalTime(time);
+      const pad = (value: number) => String(value).padStart(2, "0");
+      return `${local.year}-${pad(local.month)}-${pad(local.day)} ${pad(local.hour)}:${pad(local.minute)}:${pad(local.second)}`;
+    },
+  };
+}
+
+/**
+ * 校验目标的调度配置
+ * @returns 错误说明列表，配置有效时为空数组
+ */
+export function validateCalendar(config: CalendarConfig): string[] {
+  let calendar: Calendar;
+  try {
+    calendar = createCalendar(config);
+  } catch (error) {
+    return [error instanceof Error ? error.message : String(error)];
+  }
+
+  if (calendar.nextAllowed(Date.now()) === null) {
+    return ["activeHours 与 quietHours 之间没有可以保活的时间"];
+  }
+  if (
+    calendar.usesCron &&
+    getNextRunTime(calendar, Date.now(), { interval: 0 }) === null
+  ) {
+    return [`schedule "${config.schedule}" 在 activeHours / quietHours 限制下不会触发`];
+  }
+  return [];
+}
+
+/**
+ * 计算下一轮保活的时间（不含随机延迟）
+ * @param from 固定间隔模式下从该时刻起算；cron 模式下查找该时刻之后的触发时刻
+ * @param options.interval 固定间隔模式下的间隔，0 表示从 from 起立即执行
+ * @param options.delay cron 模式下额外推迟的时间（熔断打开时）
+ * @returns 找不到满足条件的时间时返回 null
+ */
+export function getNextRunTime(
+  calendar: Calendar,
+  from: number,
+  options: { interval: number; delay?: number },
+): number | null {
+  if (!calendar.usesCron) {
+    return calendar.nextAllowed(from + options.interval);
+  }
+
+  // 落在时间窗口外的 cron 触发时刻直接跳过，而不是推迟到窗口开始：
+  // 跳到下一个允许保活的时刻，再从那里查找 cron 触发时刻，
+  // 这样跨越周末等长时间的窗口外时段也只需要几步
+  const deadline = from + MAX_RUN_SEARCH;
+  let candidate: number | null = from + (options.delay ?? 0);
+  for (;;) {
+    candidate = calendar.nextCronTime(candidate);
+    if (candidate === null || calendar.isAllowed(candidate)) return candidate;
+
+    const allowed = calendar.nextAllowed(candidate);
+    if (allowed === null || allowed > deadline) return null;
+    // nextCronTime 查找晚于参数的时刻，减 1 毫秒使窗口开始的整分钟也能命中
+    candidate = allowed - 1;
+  }
+}
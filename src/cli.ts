@@ -0,0 +1,257 @@
+/**
+ * 命令行参数解析
+ *
+ * 用法：hf-keep-alive [命令] [选项]
+ * - run（默认）：持续保活
+ * - check：执行一轮保活后退出，失败时退出码为 1，适合 cron / CI
+ * - cookies：显示解析后的 Cookie Jar（已脱敏）与过期时间
+ * - validate [配置文件]：校验配置后退出
+ * - stats：根据运行历史统计可用率、延迟与失败分类
+ *
+ * 每个配置字段都可以通过同名的命令行参数设置（如 --interval 60000、--no-use-runtime-api），
+ * 优先级高于环境变量与配置文件
+ */
+
+import { ConfigError } from "./config.js";
+import { parseDuration } from "./utils.js";
+import {
+  CONFIG_FIELDS,
+  type ConfigLayer,
+  type FieldSchema,
+  parseFieldText,
+  toFlagName,
+} from "./config-schema.js";
+
+export type Command = "run" | "check" | "cookies" | "validate" | "stats";
+
+const COMMANDS: Record<Command, string> = {
+  run: "持续保活（默认）",
+  check: "执行一轮保活后退出，失败时退出码为 1",
+  cookies: "显示解析后的 Cookie（已脱敏）与过期时间",
+  validate: "校验配置后退出，可直接跟配置文件路径",
+  stats: "根据运行历史统计可用率、延迟与失败分类",
+};
+
+// stats 默认的统计窗口
+const DEFAULT_STATS_WINDOW = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * 解析后的命令行参数
+ */
+export interface CliOptions {
+  command: Command;
+  configPath: string | null;
+  // 通过参数设置的配置字段，键为配置文件中的字段名
+  overrides: ConfigLayer;
+  logLevel?: string;
+  logFormat?: string;
+  // check / cookies / stats 只处理这些目标，为空表示全部
+  targetNames: string[];
+  // stats 的统计窗口（毫秒）
+  window: number;
+  help: boolean;
+}
+
+// 帮助信息中说明文字的起始列
+const HELP_COLUMN = 38;
+
+// 命令行参数名 → 配置字段名
+const FLAG_FIELDS = new Map(
+  Object.keys(CONFIG_FIELDS).map((key) => [toFlagName(key), key]),
+);
+
+/**
+ * 帮助信息中参数值的占位符
+ */
+function placeholder(schema: FieldSchema): string {
+  switch (schema.type) {
+    case "boolean":
+      return "";
+    case "integer":
+    case "number":
+      return " <数字>";
+    case "integerList":
+      return " <a,b>";
+    case "stringList":
+    case "array":
+    case "object":
+      return " <JSON>";
+    default:
+      return " <文本>";
+  }
+}
+
+/**
+ * 按终端显示宽度补齐（中文字符占两列）
+ */
+function padColumn(text: string, width: number): string {
+  const displayWidth = [...text].reduce(
+    (sum, char) => sum + (/[\u3000-\u9fff\uff00-\uffef]/.test(char) ? 2 : 1),
+    0,
+  );
+  return text + " ".repeat(Math.max(2, width - displayWidth));
+}
+
+/**
+ * 生成帮助信息
+ */
+export function formatHelp(): string {
+  const lines = [
+    "用法：hf-keep-alive [命令] [选项]",
+    "",
+    "命令：",
+    ...Object.entries(COMMANDS).map(([name, description]) =>
+      `  ${padColumn(name, 10)}${description}`
+    ),
+    "",
+    "通用选项：",
+    ...[
+      ["--config <文件>", "配置文件路径（JSON 或 YAML），也可用 CONFIG_FILE 设置"],
+      ["--target <名称>", "check / cookies / stats 只处理指定目标，可重复"],
+      ["--window <时长>", "stats 的统计窗口，如 24h、7d，默认 7d"],
+      ["--log-level <级别>", "debug / info / warn / error（LOG_LEVEL）"],
+      ["--log-format <格式>", "text / json（LOG_FORMAT）"],
+      ["-h, --help", "显示帮助"],
+    ].map(([flag, description]) => `  ${padColumn(flag, HELP_COLUMN)}${description}`),
+    "",
+    "配置选项（优先级：命令行 > 环境变量 > 配置文件 > 默认值）：",
+  ];
+
+  for (const [key, schema] of Object.entries(CONFIG_FIELDS)) {
+    const flag = `--${schema.type === "boolean" ? "[no-]" : ""}${toFlagName(key)}${placeholder(schema)}`;
+    const env = schema.env ? `（${schema.env}）` : "";
+    lines.push(`  ${padColumn(flag, HELP_COLUMN)}${schema.description}${env}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * 解析命令行参数
+ * @throws ConfigError 命令、参数名或参数值无效时抛出
+ */
+export function parseCli(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    command: "run",
+    configPath: null,
+    overrides: {},
+    targetNames: [],
+    window: DEFAULT_STATS_WINDOW,
+    help: false,
+  };
+  const errors: string[] = [];
+  const positionals: string[] = [];
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+
+    if (arg === "-h" || arg === "--help") {
+      options.help = true;
+      continue;
+    }
+    if (!arg.startsWith("--")) {
+      positionals.push(arg);
+      continue;
+    }
+
+    // 支持 --flag value 与 --flag=value 两种写法
+    const equalsIndex = arg.indexOf("=");
+    const name = arg.substring(2, equalsIndex === -1 ? undefined : equalsIndex);
+    const inlineValue = equalsIndex === -1
+      ? undefined
+      : arg.substring(equalsIndex + 1);
+    const takeValue = (): string | undefined => {
+      if (inlineValue !== undefined) return inlineValue;
+      const next = argv[index + 1];
+      if (next === undefined || next.startsWith("--")) {
+        errors.push(`参数 --${name} 缺少值`);
+        return undefined;
+      }
+      index++;
+      return next;
+    };
+
+    // 布尔字段：--flag、--no-flag、--flag=false
+    const negated = name.startsWith("no-") && FLAG_FIELDS.has(name.substring(3));
+    const key = FLAG_FIELDS.get(negated ? name.substring(3) : name);
+    if (key && CONFIG_FIELDS[key].type === "boolean") {
+      if (negated && inlineValue !== undefined) {
+        errors.push(`参数 --${name} 不接受值`);
+        continue;
+      }
+      const text = negated ? "false" : inlineValue ?? "true";
+      const parsed = parseFieldText(text, CONFIG_FIELDS[key]);
+      if ("error" in parsed) {
+        errors.push(`参数 --${name}：${parsed.error}`);
+      } else {
+        options.overrides[key] = parsed.value;
+      }
+      continue;
+    }
+
+    switch (name) {
+      case "config":
+        options.configPath = takeValue() ?? null;
+        continue;
+      case "target": {
+        const value = takeValue();
+        if (value) options.targetNames.push(value);
+        continue;
+      }
+      case "window": {
+        const value = takeValue();
+        if (value === undefined) continue;
+        const window = parseDuration(value);
+        if (window === null || window <= 0) {
+          errors.push(`参数 --window：无效的时长 "${value}"，示例：30m、24h、7d`);
+        } else {
+          options.window = window;
+        }
+        continue;
+      }
+      case "log-level":
+        options.logLevel = takeValue();
+        continue;
+      case "log-format":
+        options.logFormat = takeValue();
+        continue;
+    }
+
+    if (!key || negated) {
+      errors.push(`未知参数：--${name}`);
+      continue;
+    }
+
+    const value = takeValue();
+    if (value === undefined) continue;
+    const parsed = parseFieldText(value, CONFIG_FIELDS[key]);
+    if ("error" in parsed) {
+      errors.push(`参数 --${name}：${parsed.error}`);
+    } else {
+      options.overrides[key] = parsed.value;
+    }
+  }
+
+  // 第一个位置参数为命令；validate 可以再跟一个配置文件路径
+  const [command, ...rest] = positionals;
+  if (command !== undefined) {
+    if (Object.hasOwn(COMMANDS, command)) {
+      options.command = command as Command;
+    } else {
+      errors.push(`未知命令：${command}`);
+    }
+  }
+  if (options.command === "validate" && rest.length === 1 && !options.configPath) {
+    options.configPath = rest.shift()!;
+  }
+  if (rest.length > 0) {
+    errors.push(`多余的参数：${rest.join(" ")}`);
+  }
+  if (options.targetNames.length > 0 && options.command === "run") {
+    errors.push("--target 只能用于 check、cookies 和 stats 命令");
+  }
+
+  if (errors.length > 0) {
+    throw new ConfigError(errors);
+  }
+  return options;
+}
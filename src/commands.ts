@@ -0,0 +1,341 @@
+/**
+ * 命令行命令的实现（run 之外）
+ *
+ * - check：执行一轮保活后退出，适合 cron / CI
+ * - cookies：显示解析后的 Cookie Jar（已脱敏）与过期时间
+ * - validate：校验配置后退出
+ * - stats：根据运行历史统计可用率、延迟与失败分类
+ */
+
+import type { CliOptions } from "./cli.js";
+import {
+  type Config,
+  ConfigError,
+  getConfigFilePath,
+  loadConfig,
+  type TargetConfig,
+  validateConfig,
+} from "./config.js";
+import { createCalendar, getNextRunTime } from "./calendar.js";
+import { getCookieExpiry } from "./cookie-expiry.js";
+import { initCookie } from "./cookies.js";
+import { formatProxy, resolveProxy } from "./dispatcher.js";
+import { configureHistory, readHistory, summarizeHistory } from "./history.js";
+import { keepAlive } from "./keep-alive.js";
+import { logger, redactSecret, redactText } from "./logger.js";
+import { createTarget, type Target } from "./target.js";
+import { formatDuration } from "./utils.js";
+
+// ==================== 配置 ====================
+
+/**
+ * 输出命令结果：直接写入 stdout，不受日志级别与格式影响（仍会脱敏）
+ */
+function print(line = ""): void {
+  process.stdout.write(`${redactText(line)}\n`);
+}
+
+/**
+ * 按命令行参数加载并验证配置，警告通过日志输出
+ * @throws ConfigError 配置无效时抛出
+ */
+export function loadValidConfig(cli: CliOptions): Config {
+  const config = loadConfig(getConfigFilePath(cli.configPath), cli.overrides);
+  validateConfig(config).forEach((warning) =>
+    logger.warn(`⚠️ 警告：${warning}`)
+  );
+  return config;
+}
+
+/**
+ * 打印配置错误并退出
+ */
+export function exitWithConfigError(error: ConfigError): never {
+  console.error("❌ 错误：配置无效");
+  error.errors.forEach((message) => console.error(`   ${message}`));
+  process.exit(1);
+}
+
+/**
+ * 打印单个目标的配置信息
+ * @param output 输出方式，默认与其他命令一样写入 stdout；run 启动时改用日志输出
+ */
+export function printTargetConfig(
+  config: TargetConfig,
+  output: (line: string) => void = print,
+): void {
+  output(`   [${config.name}]`);
+  if (config.spaceUrl) {
+    output(`   Space页面URL：${config.spaceUrl}`);
+  }
+  if (config.targetUrl) {
+    output(`   备用TARGET_URL：${config.targetUrl}`);
+  }
+  output(
+    config.hfToken
+      ? `   认证方式：HF 访问令牌（每${config.hubRefreshInterval / 1000}秒通过 ${config.hubEndpoint} 刷新 JWT）`
+      : "   认证方式：Cookie",
+  );
+  const calendar = createCalendar(config);
+  output(
+    calendar.usesCron
+      ? `   调度：cron ${config.schedule}（${calendar.timezone}）`
+      : `   刷新间隔：${config.interval / 1000}秒`,
+  );
+  if (config.scheduleJitter > 0) {
+    output(`   随机推迟：最多${config.scheduleJitter / 1000}秒`);
+  }
+  if (config.activeHours.length > 0) {
+    output(
+      `   保活时段：${config.activeHours.join("，")}（${calendar.timezone}）`,
+    );
+  }
+  if (config.quietHours.length > 0) {
+    output(
+      `   静默时段：${config.quietHours.join("，")}（${calendar.timezone}）`,
+    );
+  }
+  const nextRun = getNextRunTime(calendar, Date.now(), { interval: 0 });
+  output(
+    `   下次执行：${
+      nextRun === null
+        ? "❌ 无"
+        : nextRun <= Date.now()
+        ? "立即"
+        : `${calendar.format(nextRun)}（${calendar.timezone}）`
+    }${config.scheduleJitter > 0 && nextRun !== null ? "，另加随机推迟" : ""}`,
+  );
+  output(
+    `   请求配置：${config.profile}（${config.request.method}，超时${config.request.headersTimeout / 1000}秒${
+      config.request.maxBodySize > 0 ? `，最多读取${config.request.maxBodySize}字节` : ""
+    }）`,
+  );
+  output(`   期望状态码：${config.expectedStatusCodes.join(", ")}`);
+  output(`   最大重试次数：${config.maxRetries}次`);
+  output(`   最大重定向次数：${config.maxRedirects}次`);
+  output(
+    `   重试退避：${config.retryBaseDelay / 1000}秒起，最长${config.retryMaxDelay / 1000}秒，抖动${config.retryJitter * 100}%`,
+  );
+  output(
+    config.circuitBreakerThreshold > 0
+      ? `   熔断：连续失败${config.circuitBreakerThreshold}轮后放宽间隔，最长${config.circuitBreakerMaxInterval / 1000}秒`
+      : "   熔断：❌ 已禁用",
+  );
+  if (config.deepCheck !== "off") {
+    output(
+      `   深度保活：${config.deepCheck}${config.deepCheckApi ? `（调用 ${config.deepCheckApi}）` : ""}，超时${config.deepCheckTimeout / 1000}秒`,
+    );
+  }
+  output(
+    config.wakeUp
+      ? `   唤醒休眠 Space：✅ ${config.wakeMethod}，最长等待${config.wakeTimeout / 1000}秒，每${config.wakePollInterval / 1000}秒检查一次`
+      : "   唤醒休眠 Space：❌ 已禁用",
+  );
+  if (config.spaceUrl) {
+    output(
+      `   Space状态来源：${config.useRuntimeApi ? "runtime API + 页面" : "页面"}`,
+    );
+    output(
+      config.cacheIframeUrl
+        ? "   应用地址缓存：✅ 缓存至 __sign 过期或保活失败"
+        : "   应用地址缓存：❌ 已禁用，每轮访问 Space 页面",
+    );
+  }
+  output(
+    config.cookieExpiryWarning > 0
+      ? `   Cookie过期提醒：剩余${formatDuration(config.cookieExpiryWarning)}时提醒`
+      : "   Cookie过期提醒：❌ 已禁用",
+  );
+  if (config.cookieJarFile) {
+    output(`   Cookie文件：${config.cookieJarFile}`);
+  }
+  const proxy = resolveProxy(config);
+  output(`   代理：${proxy ? formatProxy(proxy) : "❌ 未使用"}`);
+  if (config.caFile) {
+    output(`   CA证书：${config.caFile}`);
+  }
+  if (config.notifiers.length > 0) {
+    // 只打印类型和触发模式，避免泄露令牌等敏感信息
+    output("   通知器：");
+    for (const notifier of config.notifiers) {
+      const state = notifier.enabled === false ? "❌ 已禁用" : "✅ 已启用";
+      const mode = notifier.on ??
+        (notifier.type === "uptimeKuma" ? "always" : "transition");
+      output(`     - ${notifier.type}（${mode}）${state}`);
+    }
+  } else {
+    output(`   通知器：❌ 未配置`);
+  }
+  output("");
+}
+
+/**
+ * 检查 --target 指定的目标是否都存在，不存在时退出
+ */
+function checkTargetNames(config: Config, names: string[]): void {
+  const unknown = names.filter((name) =>
+    !config.targets.some((target) => target.name === name)
+  );
+  if (unknown.length > 0) {
+    exitWithConfigError(
+      new ConfigError(unknown.map((name) => `未找到目标：${name}`)),
+    );
+  }
+}
+
+/**
+ * 按 --target 选出要处理的目标，并初始化 Cookie
+ */
+function prepareTargets(config: Config, names: string[]): Target[] {
+  checkTargetNames(config, names);
+  const targets = config.targets
+    .filter((target) => names.length === 0 || names.includes(target.name))
+    .map(createTarget);
+  targets.forEach(initCookie);
+  return targets;
+}
+
+// ==================== 命令 ====================
+
+/**
+ * check：每个目标执行一轮保活，打印结果
+ * @returns 退出码，有目标失败时为 1
+ */
+export async function checkCommand(cli: CliOptions): Promise<number> {
+  const config = loadValidConfig(cli);
+  await configureHistory(config.history);
+  const targets = prepareTargets(config, cli.targetNames);
+
+  await Promise.all(targets.map((target) => keepAlive(target)));
+
+  print();
+  print("📋 检查结果：");
+  for (const { config: targetConfig, status } of targets) {
+    const icon = status.lastResult === "up"
+      ? "✅"
+      : status.lastResult === "degraded"
+      ? "⏳"
+      : "❌";
+    const time = status.lastResponseTime !== null
+      ? `（${status.lastResponseTime}ms）`
+      : "";
+    print(
+      `   ${icon} [${targetConfig.name}] ${status.lastResult ?? "down"}：${status.lastMessage ?? "无结果"}${time}`,
+    );
+  }
+
+  // degraded 表示 Space 正在构建或启动，不算失败
+  return targets.every((target) => target.status.lastResult !== "down") ? 0 : 1;
+}
+
+/**
+ * cookies：打印每个目标的 Cookie Jar（值已脱敏）与过期时间
+ */
+export function cookiesCommand(cli: CliOptions): void {
+  const config = loadValidConfig(cli);
+  const targets = prepareTargets(config, cli.targetNames);
+  const now = Date.now();
+
+  for (const target of targets) {
+    const { name, cookieExpiryWarning, hfToken } = target.config;
+    print();
+    print(`🍪 [${name}] 共 ${target.cookieStorage.length} 个 Cookie`);
+    if (hfToken) {
+      print("   spaces-jwt 由 HF 访问令牌在运行时获取，不在此列出");
+    }
+
+    for (const cookie of target.cookieStorage) {
+      const scope = `${cookie.hostOnly ? "" : "."}${cookie.domain}${cookie.path}`;
+      const flags = [
+        cookie.secure ? "Secure" : "",
+        cookie.httpOnly ? "HttpOnly" : "",
+      ].filter(Boolean).join(" ");
+      print(
+        `   ${cookie.name}=${redactSecret(cookie.value)}  ${scope}${flags ? `  ${flags}` : ""}`,
+      );
+
+      const expiry = getCookieExpiry(cookie);
+      if (!expiry) {
+        print("     过期时间：会话 Cookie");
+        continue;
+      }
+      const remaining = expiry.expiresAt - now;
+      const source = expiry.source === "jwt" ? "JWT exp" : "Expires / Max-Age";
+      const warning = cookieExpiryWarning > 0 && remaining <= cookieExpiryWarning
+        ? " ⚠️ 即将过期"
+        : "";
+      print(
+        `     过期时间：${new Date(expiry.expiresAt).toISOString()}（${
+          remaining > 0 ? `剩余 ${formatDuration(remaining)}` : "已过期"
+        }，来自 ${source}）${warning}`,
+      );
+    }
+  }
+}
+
+/**
+ * validate：校验配置并打印解析结果
+ */
+export function validateCommand(cli: CliOptions): void {
+  const config = loadValidConfig(cli);
+
+  print(`✅ 配置有效（共 ${config.targets.length} 个目标）：`);
+  config.targets.forEach((targetConfig) => printTargetConfig(targetConfig));
+  print(
+    `   状态服务：${config.http.enabled ? `✅ ${config.http.host}:${config.http.port}${config.http.token ? "（需要令牌）" : ""}` : "❌ 已禁用"}`,
+  );
+  print(
+    `   运行历史：${config.history.file ? `✅ ${config.history.file}（保留${formatDuration(config.history.retention)}）` : "❌ 未启用"}`,
+  );
+}
+
+/**
+ * stats：打印统计窗口内每个目标的可用率、延迟与失败分类
+ */
+export async function statsCommand(cli: CliOptions): Promise<void> {
+  const config = loadValidConfig(cli);
+  if (!config.history.file) {
+    throw new ConfigError([
+      "未配置运行历史文件，请设置 historyFile 或 HISTORY_FILE",
+    ]);
+  }
+  checkTargetNames(config, cli.targetNames);
+
+  const records = await readHistory(config.history.file, Date.now() - cli.window);
+  const stats = summarizeHistory(records, cli.targetNames);
+
+  print(`📊 最近 ${formatDuration(cli.window)} 的运行统计（${config.history.file}）`);
+  if (stats.length === 0) {
+    print("   暂无记录");
+    return;
+  }
+
+  const formatCounts = (counts: Record<string, number>): string =>
+    Object.entries(counts)
+      .sort(([, a], [, b]) => b - a)
+      .map(([key, count]) => `${key} ×${count}`)
+      .join(", ") || "无";
+  const formatLatency = (value: number | null): string =>
+    value === null ? "-" : `${value}ms`;
+
+  for (const item of stats) {
+    print();
+    print(`   [${item.target}]`);
+    print(
+      `   可用率：${item.uptimePercent === null ? "-" : `${item.uptimePercent}%`}（up ${item.up} / degraded ${item.degraded} / down ${item.down}，共 ${item.cycles} 轮）`,
+    );
+    print(
+      `   响应时间：p50 ${formatLatency(item.latency.p50)}，p95 ${formatLatency(item.latency.p95)}`,
+    );
+    print(`   失败尝试：${item.failedAttempts} / ${item.attempts}`);
+    print(`   失败原因：${formatCounts(item.failures)}`);
+    print(`   错误类型：${formatCounts(item.errorClasses)}`);
+    if (item.wakeUps.total > 0) {
+      print(
+        `   唤醒：成功 ${item.wakeUps.awake} / ${item.wakeUps.total}，耗时 p50 ${
+          item.wakeUps.p50 === null ? "-" : `${(item.wakeUps.p50 / 1000).toFixed(1)}秒`
+        }`,
+      );
+    }
+  }
+}
@@ -0,0 +1,739 @@
+/**
+ * 配置字段定义与校验
+ *
+ * 配置文件、环境变量（以及命令行参数）都按同一份字段表解析：
+ * - 类型不符、超出范围、拼错的字段名都会报错，并给出字段路径（如 targets[1].interval）
+ * - 配置文件中的字符串支持 ${ENV_VAR} 插值，便于把密钥留在环境变量中：
+ *   ${NAME} 读取环境变量，${NAME:-默认值} 在未设置时使用默认值，$${ 表示字面量 ${
+ * - 整个值只有一个插值时（如 "interval": "${INTERVAL}"），按字段类型转换
+ */
+
+// ==================== 字段定义 ====================
+
+type FieldType =
+  | "string"
+  | "integer"
+  | "number"
+  | "boolean"
+  | "integerList"
+  | "stringList"
+  // 对象数组，元素由 validateAssertions / validateNotifiers 进一步校验
+  | "array"
+  // 键值对象，由 validateProfiles 进一步校验
+  | "object";
+
+export interface FieldSchema {
+  type: FieldType;
+  // 对应的环境变量名，未设置表示不支持通过环境变量配置
+  env?: string;
+  min?: number;
+  max?: number;
+  // target：每个目标的字段（也可写在顶层作为默认值）；top：仅顶层
+  scope: "target" | "top";
+  // 仅单目标模式下可通过环境变量、命令行参数设置（多目标时每个目标各不相同）
+  singleTarget?: boolean;
+  // 命令行帮助中的说明
+  description: string;
+}
+
+/**
+ * 一层配置来源（文件、环境变量或命令行）中已设置的字段，
+ * 键为配置文件中的字段名
+ */
+export type ConfigLayer = Record<string, unknown>;
+
+/**
+ * 配置文件的解析结果
+ */
+export interface ParsedConfigFile {
+  // 顶层字段
+  defaults: ConfigLayer;
+  // 多目标数组，单目标格式下为 null
+  targets: ConfigLayer[] | null;
+  errors: string[];
+}
+
+export const CONFIG_FIELDS: Record<string, FieldSchema> = {
+  name: {
+    type: "string",
+    scope: "target",
+    singleTarget: true,
+    description: "目标名称，用于日志区分",
+  },
+  spaceUrl: {
+    type: "string",
+    env: "SPACE_URL",
+    scope: "target",
+    singleTarget: true,
+    description: "Hugging Face Space 页面 URL",
+  },
+  targetUrl: {
+    type: "string",
+    env: "TARGET_URL",
+    scope: "target",
+    singleTarget: true,
+    description: "要保活的完整 URL（备用）",
+  },
+  currentCookie: {
+    type: "string",
+    env: "CURRENT_COOKIE",
+    scope: "target",
+    singleTarget: true,
+    description: "访问 Space 所需的 Cookie",
+  },
+  hfToken: {
+    type: "string",
+    env: "HF_TOKEN",
+    scope: "target",
+    description: "HF 访问令牌（hf_...）",
+  },
+  hubEndpoint: {
+    type: "string",
+    env: "HF_ENDPOINT",
+    scope: "target",
+    description: "Hub API 地址",
+  },
+  hubRefreshInterval: {
+    type: "integer",
+    env: "HUB_REFRESH_INTERVAL",
+    min: 1000,
+    scope: "target",
+    description: "刷新 Space JWT 的间隔（毫秒）",
+  },
+  interval: {
+    type: "integer",
+    env: "INTERVAL",
+    min: 1000,
+    scope: "target",
+    description: "请求间隔（毫秒）",
+  },
+  schedule: {
+    type: "string",
+    env: "SCHEDULE",
+    scope: "target",
+    description: "cron 表达式（分 时 日 月 周），设置后代替 interval",
+  },
+  scheduleJitter: {
+    type: "integer",
+    env: "SCHEDULE_JITTER",
+    min: 0,
+    scope: "target",
+    description: "每轮保活随机推迟的最长时间（毫秒）",
+  },
+  activeHours: {
+    type: "stringList",
+    env: "ACTIVE_HOURS",
+    scope: "target",
+    description: "只在这些时间窗口内保活（JSON 字符串数组，如 [\"mon-fri 09:00-18:00\"]）",
+  },
+  quietHours: {
+    type: "stringList",
+    env: "QUIET_HOURS",
+    scope: "target",
+    description: "这些时间窗口内不保活（JSON 字符串数组）",
+  },
+  timezone: {
+    type: "string",
+    env: "SCHEDULE_TIMEZONE",
+    scope: "target",
+    description: "cron 与时间窗口使用的时区，如 Asia/Shanghai",
+  },
+  expectedStatusCodes: {
+    type: "integerList",
+    env: "EXPECTED_STATUS_CODES",
+    min: 100,
+    max: 599,
+    scope: "target",
+    description: "期望的 HTTP 状态码，逗号分隔",
+  },
+  maxRetries: {
+    type: "integer",
+    env: "MAX_RETRIES",
+    min: 1,
+    scope: "target",
+    description: "最大重试次数",
+  },
+  maxRedirects: {
+    type: "integer",
+    env: "MAX_REDIRECTS",
+    min: 0,
+    scope: "target",
+    description: "最多跟随的重定向次数",
+  },
+  retryBaseDelay: {
+    type: "integer",
+    env: "RETRY_BASE_DELAY",
+    min: 0,
+    scope: "target",
+    description: "首次重试前的等待时间（毫秒）",
+  },
+  retryMaxDelay: {
+    type: "integer",
+    env: "RETRY_MAX_DELAY",
+    min: 0,
+    scope: "target",
+    description: "重试等待时间上限（毫秒）",
+  },
+  retryJitter: {
+    type: "number",
+    env: "RETRY_JITTER",
+    min: 0,
+    max: 1,
+    scope: "target",
+    description: "重试等待的随机抖动比例（0-1）",
+  },
+  circuitBreakerThreshold: {
+    type: "integer",
+    env: "CIRCUIT_BREAKER_THRESHOLD",
+    min: 0,
+    scope: "target",
+    description: "连续失败多少轮后打开熔断，0 表示关闭",
+  },
+  circuitBreakerMaxInterval: {
+    type: "integer",
+    env: "CIRCUIT_BREAKER_MAX_INTERVAL",
+    min: 1000,
+    scope: "target",
+    description: "熔断时保活间隔的上限（毫秒）",
+  },
+  useRuntimeApi: {
+    type: "boolean",
+    env: "SPACE_RUNTIME_API",
+    scope: "target",
+    description: "通过 Hub runtime API 获取 Space 状态",
+  },
+  cacheIframeUrl: {
+    type: "boolean",
+    env: "CACHE_IFRAME_URL",
+    scope: "target",
+    description: "缓存应用地址直到 __sign 过期或保活失败",
+  },
+  failureMarkers: {
+    type: "stringList",
+    scope: "target",
+    description: "失败标记（JSON 字符串数组）",
+  },
+  assertions: {
+    type: "array",
+    env: "ASSERTIONS",
+    scope: "target",
+    description: "自定义成功断言（JSON 数组）",
+  },
+  deepCheck: {
+    type: "string",
+    env: "DEEP_CHECK",
+    scope: "target",
+    description: "深度保活：off / auto / gradio / streamlit",
+  },
+  deepCheckApi: {
+    type: "string",
+    env: "DEEP_CHECK_API",
+    scope: "target",
+    description: "深度保活时调用的 Gradio 接口名，如 /predict",
+  },
+  deepCheckInput: {
+    type: "array",
+    env: "DEEP_CHECK_INPUT",
+    scope: "target",
+    description: "调用 Gradio 接口的示例输入（JSON 数组）",
+  },
+  deepCheckExpect: {
+    type: "string",
+    env: "DEEP_CHECK_EXPECT",
+    scope: "target",
+    description: "Gradio 接口输出中应包含的文本",
+  },
+  deepCheckTimeout: {
+    type: "integer",
+    env: "DEEP_CHECK_TIMEOUT",
+    min: 1000,
+    scope: "target",
+    description: "深度保活的总超时（毫秒）",
+  },
+  wakeUp: {
+    type: "boolean",
+    env: "WAKE_UP",
+    scope: "target",
+    description: "遇到休眠页面或失败标记时唤醒 Space",
+  },
+  wakeMethod: {
+    type: "string",
+    env: "WAKE_METHOD",
+    scope: "target",
+    description: "唤醒方式：auto / hub / page",
+  },
+  wakeTimeout: {
+    type: "integer",
+    env: "WAKE_TIMEOUT",
+    min: 10000,
+    scope: "target",
+    description: "唤醒后等待应用恢复的期限（毫秒）",
+  },
+  wakePollInterval: {
+    type: "integer",
+    env: "WAKE_POLL_INTERVAL",
+    min: 1000,
+    scope: "target",
+    description: "唤醒期间检查应用是否恢复的间隔（毫秒）",
+  },
+  cookieJarFile: {
+    type: "string",
+    env: "COOKIE_JAR_FILE",
+    scope: "target",
+    singleTarget: true,
+    description: "Cookie 持久化文件路径",
+  },
+  cookieExpiryWarning: {
+    type: "integer",
+    env: "COOKIE_EXPIRY_WARNING",
+    min: 0,
+    scope: "target",
+    description: "Cookie 过期提醒窗口（毫秒），0 表示不提醒",
+  },
+  notifiers: {
+    type: "array",
+    env: "NOTIFIERS",
+    scope: "target",
+    description: "通知器列表（JSON 数组）",
+  },
+  uptimeKumaPushUrl: {
+    type: "string",
+    env: "UPTIME_KUMA_PUSH_URL",
+    scope: "target",
+    description: "Uptime Kuma Push API URL",
+  },
+  uptimeKumaEnabled: {
+    type: "boolean",
+    env: "UPTIME_KUMA_ENABLED",
+    scope: "target",
+    description: "启用 Uptime Kuma 推送",
+  },
+  profile: {
+    type: "string",
+    env: "REQUEST_PROFILE",
+    scope: "target",
+    description: "使用的请求配置名称（profiles 中定义），默认 default",
+  },
+  proxy: {
+    type: "string",
+    scope: "target",
+    description: "代理地址（http/https/socks5/socks5h），direct 表示不使用 HTTPS_PROXY",
+  },
+  noProxy: {
+    type: "stringList",
+    scope: "target",
+    description: "不走代理的主机（JSON 字符串数组），与 NO_PROXY 合并",
+  },
+  caFile: {
+    type: "string",
+    env: "CA_FILE",
+    scope: "target",
+    description: "额外信任的 CA 证书文件（PEM）",
+  },
+  maxConnections: {
+    type: "integer",
+    env: "MAX_CONNECTIONS",
+    min: 0,
+    scope: "target",
+    description: "每个源站的最大连接数，0 表示不限制",
+  },
+  keepAliveTimeout: {
+    type: "integer",
+    env: "KEEP_ALIVE_TIMEOUT",
+    min: 1,
+    scope: "target",
+    description: "空闲连接保持时间（毫秒）",
+  },
+  profiles: {
+    type: "object",
+    scope: "top",
+    description: "按名称定义的请求配置（JSON 对象）",
+  },
+  httpEnabled: {
+    type: "boolean",
+    env: "HTTP_ENABLED",
+    scope: "top",
+    description: "启用内置状态服务",
+  },
+  httpHost: {
+    type: "string",
+    env: "HTTP_HOST",
+    scope: "top",
+    description: "状态服务监听地址",
+  },
+  httpPort: {
+    type: "integer",
+    env: "HTTP_PORT",
+    min: 0,
+    max: 65535,
+    scope: "top",
+    description: "状态服务监听端口",
+  },
+  httpToken: {
+    type: "string",
+    env: "HTTP_TOKEN",
+    scope: "top",
+    description: "状态服务的访问令牌，设置后除 /healthz 外需要 Bearer 认证",
+  },
+  historyFile: {
+    type: "string",
+    env: "HISTORY_FILE",
+    scope: "top",
+    description: "运行历史文件路径（JSONL）",
+  },
+  historyRetention: {
+    type: "integer",
+    env: "HISTORY_RETENTION",
+    min: 60000,
+    scope: "top",
+    description: "运行历史保留时长（毫秒）",
+  },
+  shutdownTimeout: {
+    type: "integer",
+    env: "SHUTDOWN_TIMEOUT",
+    min: 0,
+    scope: "top",
+    description: "退出时等待进行中的保活结束的时间（毫秒）",
+  },
+};
+
+/**
+ * 字段对应的命令行参数名，如 expectedStatusCodes → expected-status-codes
+ */
+export function toFlagName(key: string): string {
+  return key.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+}
+
+// ==================== 类型转换 ====================
+
+/**
+ * 描述一个值的类型，用于错误信息
+ */
+function describe(value: unknown): string {
+  if (Array.isArray(value)) return "数组";
+  if (value === null) return "null";
+  if (typeof value === "string") return `字符串 ${JSON.stringify(value)}`;
+  if (typeof value === "object") return "对象";
+  return `${typeof value} ${String(value)}`;
+}
+
+/**
+ * 检查数值范围
+ * @returns 错误信息，符合要求时返回 null
+ */
+function checkRange(value: number, schema: FieldSchema): string | null {
+  if (schema.min !== undefined && value < schema.min) {
+    return `不能小于 ${schema.min}，实际为 ${value}`;
+  }
+  if (schema.max !== undefined && value > schema.max) {
+    return `不能大于 ${schema.max}，实际为 ${value}`;
+  }
+  return null;
+}
+
+/**
+ * 校验已解析的值（来自配置文件或 JSON）是否符合字段类型
+ * @returns 错误信息，符合要求时返回 null
+ */
+function checkValue(value: unknown, schema: FieldSchema): string | null {
+  switch (schema.type) {
+    case "string":
+      return typeof value === "string" ? null : `应为字符串，实际为${describe(value)}`;
+    case "boolean":
+      return typeof value === "boolean"
+        ? null
+        : `应为 true 或 false，实际为${describe(value)}`;
+    case "integer":
+    case "number":
+      if (
+        typeof value !== "number" || !Number.isFinite(value) ||
+        (schema.type === "integer" && !Number.isInteger(value))
+      ) {
+        return `应为${schema.type === "integer" ? "整数" : "数字"}，实际为${describe(value)}`;
+      }
+      return checkRange(value, schema);
+    case "integerList": {
+      if (!Array.isArray(value)) return `应为整数数组，实际为${describe(value)}`;
+      for (const [index, item] of value.entries()) {
+        if (!Number.isInteger(item)) {
+          return `[${index}] 应为整数，实际为${describe(item)}`;
+        }
+        const rangeError = checkRange(item, schema);
+        if (rangeError) return `[${index}] ${rangeError}`;
+      }
+      return value.length > 0 ? null : "不能为空数组";
+    }
+    case "stringList": {
+      if (!Array.isArray(value)) return `应为字符串数组，实际为${describe(value)}`;
+      const index = value.findIndex((item) => typeof item !== "string");
+      return index === -1 ? null : `[${index}] 应为字符串，实际为${describe(value[index])}`;
+    }
+    case "array":
+      return Array.isArray(value) ? null : `应为数组，实际为${describe(value)}`;
+    case "object":
+      return value !== null && typeof value === "object" && !Array.isArray(value)
+        ? null
+        : `应为对象，实际为${describe(value)}`;
+  }
+}
+
+/**
+ * 将字符串形式的值（环境变量、命令行参数或插值结果）转换为字段类型
+ */
+export function parseFieldText(
+  text: string,
+  schema: FieldSchema,
+): { value: unknown } | { error: string } {
+  let value: unknown;
+  switch (schema.type) {
+    case "string":
+      return { value: text };
+    case "boolean":
+      if (text !== "true" && text !== "false") {
+        return { error: `应为 true 或 false，实际为 ${JSON.stringify(text)}` };
+      }
+      value = text === "true";
+      break;
+    case "integer":
+    case "number":
+      value = text.trim() === "" ? NaN : Number(text);
+      break;
+    case "integerList":
+      value = text.split(",").map((item) =>
+        item.trim() === "" ? NaN : Number(item)
+      );
+      break;
+    case "stringList":
+    case "array":
+    case "object":
+      try {
+        value = JSON.parse(text);
+      } catch (error) {
+        return {
+          error: `不是有效的 JSON：${error instanceof Error ? error.message : String(error)}`,
+        };
+      }
+      break;
+  }
+
+  const error = checkValue(value, schema);
+  if (error === null) return { value };
+  // 数字解析失败时报告原始文本，而不是 NaN
+  return {
+    error: Number.isNaN(value) ? `应为数字，实际为 ${JSON.stringify(text)}` : error,
+  };
+}
+
+// ==================== 环境变量插值 ====================
+
+const PLACEHOLDER_PATTERN = /\$\$\{|\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+const WHOLE_PLACEHOLDER_PATTERN = /^\$\{[A-Za-z_][A-Za-z0-9_]*(?::-[^}]*)?\}$/;
+
+/**
+ * 替换字符串中的 ${ENV_VAR} 占位符
+ * @param missing 收集未设置的环境变量名
+ */
+function interpolate(
+  text: string,
+  env: NodeJS.ProcessEnv,
+  missing: string[],
+): string {
+  return text.replace(
+    PLACEHOLDER_PATTERN,
+    (match, name: string | undefined, fallback: string | undefined) => {
+      if (!name) return "${";
+      const value = env[name];
+      if (value !== undefined && value !== "") return value;
+      if (fallback !== undefined) return fallback;
+      missing.push(name);
+      return match;
+    },
+  );
+}
+
+/**
+ * 递归替换对象、数组中所有字符串的占位符
+ */
+function interpolateDeep(
+  value: unknown,
+  env: NodeJS.ProcessEnv,
+  missing: string[],
+): unknown {
+  if (typeof value === "string") return interpolate(value, env, missing);
+  if (Array.isArray(value)) {
+    return value.map((item) => interpolateDeep(item, env, missing));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map((
+        [key, child],
+      ) => [key, interpolateDeep(child, env, missing)]),
+    );
+  }
+  return value;
+}
+
+// ==================== 配置来源解析 ====================
+
+/**
+ * 计算编辑距离，用于提示拼错的字段名
+ */
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+/**
+ * 为未知字段找一个相近的合法字段名
+ */
+function suggestField(key: string, candidates: string[]): string | null {
+  const lower = key.toLowerCase();
+  let best: string | null = null;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = editDistance(lower, candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return bestDistance <= Math.max(2, Math.floor(key.length / 4)) ? best : null;
+}
+
+/**
+ * 校验配置文件中的一个对象（顶层或 targets 中的一项）
+ * @param path 对象的路径，如 targets[1]
+ */
+function parseFileObject(
+  data: Record<string, unknown>,
+  path: string,
+  allowTop: boolean,
+  env: NodeJS.ProcessEnv,
+  errors: string[],
+): ConfigLayer {
+  const candidates = Object.keys(CONFIG_FIELDS).filter((key) =>
+    allowTop || CONFIG_FIELDS[key].scope === "target"
+  );
+  if (allowTop) candidates.push("targets");
+
+  const layer: ConfigLayer = {};
+  for (const [key, raw] of Object.entries(data)) {
+    const fieldPath = path ? `${path}.${key}` : key;
+    if (key === "targets" && allowTop) continue;
+
+    const schema = Object.hasOwn(CONFIG_FIELDS, key)
+      ? CONFIG_FIELDS[key]
+      : undefined;
+    if (!schema || (schema.scope === "top" && !allowTop)) {
+      const suggestion = suggestField(key, candidates);
+      errors.push(
+        schema
+          ? `${fieldPath}：只能写在配置文件顶层`
+          : `${fieldPath}：未知字段${suggestion ? `，是否应为 ${suggestion}？` : ""}`,
+      );
+      continue;
+    }
+
+    const missing: string[] = [];
+    let value: unknown;
+    let error: string | null;
+    if (
+      typeof raw === "string" && schema.type !== "string" &&
+      WHOLE_PLACEHOLDER_PATTERN.test(raw)
+    ) {
+      // 整个值是一个插值，按环境变量的规则转换类型
+      const parsed = parseFieldText(interpolate(raw, env, missing), schema);
+      value = "value" in parsed ? parsed.value : undefined;
+      error = "error" in parsed ? parsed.error : null;
+    } else {
+      value = interpolateDeep(raw, env, missing);
+      error = checkValue(value, schema);
+    }
+
+    if (missing.length > 0) {
+      errors.push(`${fieldPath}：环境变量 ${missing.join("、")} 未设置`);
+    } else if (error !== null) {
+      errors.push(`${fieldPath}：${error}`);
+    } else {
+      layer[key] = value;
+    }
+  }
+  return layer;
+}
+
+/**
+ * 校验配置文件内容
+ */
+export function parseConfigFile(
+  data: unknown,
+  env: NodeJS.ProcessEnv,
+): ParsedConfigFile {
+  const errors: string[] = [];
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    return {
+      defaults: {},
+      targets: null,
+      errors: [`配置文件顶层应为对象，实际为${describe(data)}`],
+    };
+  }
+
+  const record = data as Record<string, unknown>;
+  const defaults = parseFileObject(record, "", true, env, errors);
+
+  if (record.targets === undefined) {
+    return { defaults, targets: null, errors };
+  }
+  if (!Array.isArray(record.targets)) {
+    errors.push(`targets：应为数组，实际为${describe(record.targets)}`);
+    return { defaults, targets: null, errors };
+  }
+
+  const targets = record.targets.map((item, index) => {
+    const path = `targets[${index}]`;
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      errors.push(`${path}：应为对象，实际为${describe(item)}`);
+      return {};
+    }
+    return parseFileObject(item, path, false, env, errors);
+  });
+  return { defaults, targets, errors };
+}
+
+/**
+ * 从环境变量读取配置
+ * @param multiTarget 多目标模式下不读取 SPACE_URL 等单目标专用的变量
+ */
+export function parseEnvConfig(
+  env: NodeJS.ProcessEnv,
+  multiTarget: boolean,
+): { layer: ConfigLayer; errors: string[] } {
+  const layer: ConfigLayer = {};
+  const errors: string[] = [];
+
+  for (const [key, schema] of Object.entries(CONFIG_FIELDS)) {
+    if (!schema.env || (multiTarget && schema.singleTarget)) continue;
+    const text = env[schema.env];
+    if (text === undefined || text === "") continue;
+
+    const parsed = parseFieldText(text, schema);
+    if ("error" in parsed) {
+      errors.push(`环境变量 ${schema.env}：${parsed.error}`);
+    } else {
+      layer[key] = parsed.value;
+    }
+  }
+  return { layer, errors };
+}
@@ -0,0 +1,678 @@
+/**
+ * 配置加载与校验
+ *
+ * 支持两种配置文件格式：
+ * - 单目标（兼容旧版）：顶层直接写 spaceUrl / targetUrl / currentCookie 等字段
+ * - 多目标：顶层 targets 数组，每一项是一个独立的保活目标；
+ *   顶层的其余字段作为各目标的默认值
+ *
+ * 配置文件可以是 JSON 或 YAML，字段定义与校验见 config-schema.ts。
+ * 优先级：命令行参数 > 环境变量 > 配置文件 > 默认值
+ */
+
+import { env } from "process";
+import { existsSync, readFileSync } from "fs";
+import { resolve } from "path";
+import { parse as parseYaml } from "yaml";
+import { type Assertion, validateAssertions } from "./assertions.js";
+import {
+  CONFIG_FIELDS,
+  type ConfigLayer,
+  parseConfigFile,
+  type ParsedConfigFile,
+  parseEnvConfig,
+  toFlagName,
+} from "./config-schema.js";
+import { validateCalendar } from "./calendar.js";
+import { DEEP_CHECK_MODES, type DeepCheckMode } from "./deep-check.js";
+import { PROXY_PROTOCOLS, resolveProxy } from "./dispatcher.js";
+import { parseSpaceId } from "./hub-auth.js";
+import {
+  DEFAULT_PROFILE_NAME,
+  type RequestProfile,
+  resolveProfile,
+  validateProfiles,
+} from "./profiles.js";
+import { type LogFormat, type LogLevel, parseLogLevel } from "./logger.js";
+import { type NotifierConfig, validateNotifiers } from "./notifiers/index.js";
+import { WAKE_METHODS, type WakeMethod } from "./wake-up.js";
+
+// ==================== 配置类型 ====================
+
+/**
+ * 单个保活目标的配置
+ */
+export interface TargetConfig {
+  name: string;
+  spaceUrl: string;
+  targetUrl: string;
+  cookie: string;
+  // HF 访问令牌（hf_...），设置后通过 Hub API 自动获取 Space JWT
+  hfToken?: string;
+  hubEndpoint: string;
+  hubRefreshInterval: number;
+  interval: number;
+  // cron 表达式，空字符串表示按 interval 固定间隔执行
+  schedule: string;
+  // 每轮保活随机推迟的最长时间（毫秒）
+  scheduleJitter: number;
+  // 允许 / 禁止保活的时间窗口，如 "mon-fri 09:00-18:00"
+  activeHours: string[];
+  quietHours: string[];
+  // cron 与时间窗口使用的 IANA 时区，空字符串表示系统时区
+  timezone: string;
+  expectedStatusCodes: number[];
+  maxRetries: number;
+  maxRedirects: number;
+  // 重试退避：首次等待时间、等待上限（毫秒）与抖动比例（0-1）
+  retryBaseDelay: number;
+  retryMaxDelay: number;
+  retryJitter: number;
+  // 熔断：连续失败多少轮后放宽保活间隔（0 表示关闭），以及放宽后的间隔上限（毫秒）
+  circuitBreakerThreshold: number;
+  circuitBreakerMaxInterval: number;
+  useRuntimeApi: boolean;
+  // 是否缓存解析出的应用地址，直到 __sign 过期或保活失败
+  cacheIframeUrl: boolean;
+  failureMarkers: string[];
+  assertions: Assertion[];
+  // 深度保活模式、调用的 Gradio 接口、示例输入、期望输出与总超时（毫秒）
+  deepCheck: DeepCheckMode;
+  deepCheckApi: string;
+  deepCheckInput: unknown[];
+  deepCheckExpect: string;
+  deepCheckTimeout: number;
+  // 遇到休眠页面或失败标记时是否唤醒 Space、唤醒方式、等待期限与检查间隔（毫秒）
+  wakeUp: boolean;
+  wakeMethod: WakeMethod;
+  wakeTimeout: number;
+  wakePollInterval: number;
+  cookieJarFile?: string;
+  // Cookie 剩余有效期低于该值（毫秒）时提醒，0 表示不提醒
+  cookieExpiryWarning: number;
+  notifiers: NotifierConfig[];
+  // 请求配置名称与补齐默认值后的内容
+  profile: string;
+  request: RequestProfile;
+  // 代理地址，空字符串表示使用 HTTPS_PROXY / HTTP_PROXY，direct 表示直连
+  proxy: string;
+  noProxy: string[];
+  // 额外信任的 CA 证书文件（PEM）
+  caFile?: string;
+  // 连接池：每个源站的最大连接数（0 表示不限制）与空闲连接保持时间（毫秒）
+  maxConnections: number;
+  keepAliveTimeout: number;
+}
+
+/**
+ * 内置 HTTP 状态服务配置
+ */
+export interface HttpServerConfig {
+  enabled: boolean;
+  host: string;
+  port: number;
+  // 设置后除 /healthz 外的接口都需要 Authorization: Bearer <token>
+  token: string;
+}
+
+/**
+ * 运行历史配置
+ */
+export interface HistoryConfig {
+  // JSONL 文件路径，null 表示不记录
+  file: string | null;
+  // 记录保留时长（毫秒）
+  retention: number;
+}
+
+/**
+ * 日志配置（全局，在加载其他配置之前生效）
+ */
+export interface LoggingConfig {
+  level: LogLevel;
+  format: LogFormat;
+  // 是否脱敏，DEBUG_SECRETS=true 时关闭
+  redact: boolean;
+}
+
+export interface Config {
+  targets: TargetConfig[];
+  http: HttpServerConfig;
+  history: HistoryConfig;
+  // 退出时等待进行中的保活结束的时间（毫秒）
+  shutdownTimeout: number;
+}
+
+/**
+ * 配置文件中单个目标的字段
+ */
+interface TargetConfigFile {
+  name?: string;
+  spaceUrl?: string;
+  targetUrl?: string;
+  currentCookie?: string;
+  hfToken?: string;
+  hubEndpoint?: string;
+  hubRefreshInterval?: number;
+  interval?: number;
+  schedule?: string;
+  scheduleJitter?: number;
+  activeHours?: string[];
+  quietHours?: string[];
+  timezone?: string;
+  expectedStatusCodes?: number[];
+  maxRetries?: number;
+  maxRedirects?: number;
+  retryBaseDelay?: number;
+  retryMaxDelay?: number;
+  retryJitter?: number;
+  circuitBreakerThreshold?: number;
+  circuitBreakerMaxInterval?: number;
+  useRuntimeApi?: boolean;
+  cacheIframeUrl?: boolean;
+  failureMarkers?: string[];
+  assertions?: Assertion[];
+  deepCheck?: string;
+  deepCheckApi?: string;
+  deepCheckInput?: unknown[];
+  deepCheckExpect?: string;
+  deepCheckTimeout?: number;
+  wakeUp?: boolean;
+  wakeMethod?: string;
+  wakeTimeout?: number;
+  wakePollInterval?: number;
+  cookieJarFile?: string;
+  cookieExpiryWarning?: number;
+  notifiers?: NotifierConfig[];
+  // 旧版 Uptime Kuma 配置，等价于一个 uptimeKuma 通知器
+  uptimeKumaPushUrl?: string;
+  uptimeKumaEnabled?: boolean;
+  profile?: string;
+  proxy?: string;
+  noProxy?: string[];
+  caFile?: string;
+  maxConnections?: number;
+  keepAliveTimeout?: number;
+}
+
+/**
+ * 配置文件接口
+ */
+interface ConfigFile extends TargetConfigFile {
+  targets?: TargetConfigFile[];
+  profiles?: Record<string, Record<string, unknown>>;
+  httpEnabled?: boolean;
+  httpHost?: string;
+  httpPort?: number;
+  httpToken?: string;
+  historyFile?: string;
+  historyRetention?: number;
+  shutdownTimeout?: number;
+}
+
+/**
+ * 配置无效，errors 为每一处错误的说明
+ */
+export class ConfigError extends Error {
+  readonly errors: string[];
+
+  constructor(errors: string[]) {
+    super(`配置无效：${errors.join("；")}`);
+    this.name = "ConfigError";
+    this.errors = errors;
+  }
+}
+
+const DEFAULT_INTERVAL = 30000;
+const DEFAULT_HUB_ENDPOINT = "https://huggingface.co";
+const DEFAULT_HUB_REFRESH_INTERVAL = 30 * 60 * 1000;
+const DEFAULT_EXPECTED_STATUS_CODES = [200];
+const DEFAULT_MAX_RETRIES = 5;
+const DEFAULT_MAX_REDIRECTS = 5;
+const DEFAULT_RETRY_BASE_DELAY = 2000;
+const DEFAULT_RETRY_MAX_DELAY = 60000;
+const DEFAULT_RETRY_JITTER = 0.5;
+const DEFAULT_CIRCUIT_BREAKER_THRESHOLD = 5;
+const DEFAULT_CIRCUIT_BREAKER_MAX_INTERVAL = 30 * 60 * 1000;
+// 默认失败检测标记
+const DEFAULT_FAILURE_MARKERS = [
+  "Sorry, we can't find the page you are looking for.",
+  "https://huggingface.co/front/assets/huggingface_logo.svg",
+];
+const DEFAULT_COOKIE_EXPIRY_WARNING = 24 * 60 * 60 * 1000;
+// 与 undici 的默认值一致
+const DEFAULT_KEEP_ALIVE_TIMEOUT = 4000;
+const DEFAULT_DEEP_CHECK_TIMEOUT = 30000;
+// 冷启动通常需要 2-3 分钟
+const DEFAULT_WAKE_TIMEOUT = 5 * 60 * 1000;
+const DEFAULT_WAKE_POLL_INTERVAL = 10000;
+// 默认只监听本机，需要对外提供时显式设置（Docker 镜像中为 0.0.0.0）
+const DEFAULT_HTTP_HOST = "127.0.0.1";
+const DEFAULT_HTTP_PORT = 3000;
+const DEFAULT_HISTORY_RETENTION = 30 * 24 * 60 * 60 * 1000;
+// 低于 Docker 停止容器时默认的 10 秒宽限期
+const DEFAULT_SHUTDOWN_TIMEOUT = 8000;
+
+// ==================== 配置读取 ====================
+
+/**
+ * 合并通知器列表与旧版 Uptime Kuma 配置
+ * @returns 两者都未设置时返回 undefined
+ */
+function withLegacyUptimeKuma(
+  notifiers: NotifierConfig[] | undefined,
+  pushUrl: string | undefined,
+  enabled: boolean,
+): NotifierConfig[] | undefined {
+  if (!pushUrl) return notifiers;
+  return [...(notifiers ?? []), { type: "uptimeKuma", pushUrl, enabled }];
+}
+
+/**
+ * 将配置文件中的单个目标转换为目标配置（未填写的字段保留为空，由调用方补齐）
+ */
+function toPartialTarget(data: TargetConfigFile): Partial<TargetConfig> {
+  return {
+    name: data.name || "",
+    spaceUrl: data.spaceUrl || "",
+    targetUrl: data.targetUrl || "",
+    cookie: data.currentCookie || "",
+    hfToken: data.hfToken,
+    hubEndpoint: data.hubEndpoint,
+    hubRefreshInterval: data.hubRefreshInterval,
+    interval: data.interval,
+    schedule: data.schedule,
+    scheduleJitter: data.scheduleJitter,
+    activeHours: data.activeHours,
+    quietHours: data.quietHours,
+    timezone: data.timezone,
+    expectedStatusCodes: data.expectedStatusCodes,
+    maxRetries: data.maxRetries,
+    maxRedirects: data.maxRedirects,
+    retryBaseDelay: data.retryBaseDelay,
+    retryMaxDelay: data.retryMaxDelay,
+    retryJitter: data.retryJitter,
+    circuitBreakerThreshold: data.circuitBreakerThreshold,
+    circuitBreakerMaxInterval: data.circuitBreakerMaxInterval,
+    useRuntimeApi: data.useRuntimeApi,
+    cacheIframeUrl: data.cacheIframeUrl,
+    failureMarkers: data.failureMarkers,
+    assertions: data.assertions,
+    deepCheck: data.deepCheck as DeepCheckMode | undefined,
+    deepCheckApi: data.deepCheckApi,
+    deepCheckInput: data.deepCheckInput,
+    deepCheckExpect: data.deepCheckExpect,
+    deepCheckTimeout: data.deepCheckTimeout,
+    wakeUp: data.wakeUp,
+    wakeMethod: data.wakeMethod as WakeMethod | undefined,
+    wakeTimeout: data.wakeTimeout,
+    wakePollInterval: data.wakePollInterval,
+    cookieJarFile: data.cookieJarFile,
+    cookieExpiryWarning: data.cookieExpiryWarning,
+    notifiers: withLegacyUptimeKuma(
+      data.notifiers,
+      data.uptimeKumaPushUrl,
+      data.uptimeKumaEnabled ?? true,
+    ),
+    profile: data.profile,
+    proxy: data.proxy,
+    noProxy: data.noProxy,
+    caFile: data.caFile,
+    maxConnections: data.maxConnections,
+    keepAliveTimeout: data.keepAliveTimeout,
+  };
+}
+
+/**
+ * 读取并校验配置文件，支持 JSON 与 YAML（按扩展名 .yaml / .yml 识别）
+ */
+function loadConfigFromFile(configPath: string): ParsedConfigFile {
+  const resolvedPath = resolve(configPath);
+  let data: unknown;
+  try {
+    const fileContent = readFileSync(resolvedPath, "utf-8");
+    data = /\.ya?ml$/i.test(resolvedPath)
+      ? parseYaml(fileContent)
+      : JSON.parse(fileContent);
+  } catch (error) {
+    throw new ConfigError([
+      `读取配置文件失败：${error instanceof Error ? error.message : String(error)}`,
+    ]);
+  }
+
+  console.log(`✅ 成功读取配置文件：${resolvedPath}`);
+  return parseConfigFile(data, env);
+}
+
+/**
+ * 获取配置文件路径：命令行 --config 优先，其次是 CONFIG_FILE 环境变量
+ */
+export function getConfigFilePath(cliPath?: string | null): string | null {
+  return cliPath || env.CONFIG_FILE || null;
+}
+
+/**
+ * 根据 URL 生成目标名称，例如 username/space-name
+ */
+function deriveTargetName(target: Partial<TargetConfig>, index: number): string {
+  if (target.spaceUrl) {
+    try {
+      const match = new URL(target.spaceUrl).pathname.match(
+        /^\/spaces\/([^/]+\/[^/]+)/,
+      );
+      if (match) return match[1];
+    } catch {
+      // 由 validateConfig 统一报告 URL 格式错误
+    }
+  }
+
+  if (target.targetUrl) {
+    try {
+      return new URL(target.targetUrl).hostname;
+    } catch {
+      // 同上
+    }
+  }
+
+  return `target-${index + 1}`;
+}
+
+/**
+ * 合并各配置来源与默认值，得到完整的目标配置列表
+ *
+ * 优先级：命令行参数 > 环境变量 > 配置文件（目标内字段 > 顶层字段） > 默认值
+ * 多目标模式下 SPACE_URL、TARGET_URL、CURRENT_COOKIE、COOKIE_JAR_FILE
+ * 等单目标专用的环境变量不生效（对应的命令行参数会报错），其余设置作用于所有目标
+ *
+ * @param configPath 配置文件路径，为 null 时只使用环境变量与命令行参数
+ * @param overrides 命令行参数中的配置，键为配置文件中的字段名
+ * @throws ConfigError 配置文件无法读取或字段无效时抛出
+ */
+export function loadConfig(
+  configPath: string | null,
+  overrides: ConfigLayer = {},
+): Config {
+  const file = configPath
+    ? loadConfigFromFile(configPath)
+    : { defaults: {}, targets: null, errors: [] };
+  const fromEnv = parseEnvConfig(env, file.targets !== null);
+
+  const errors = [...file.errors, ...fromEnv.errors];
+  if (file.targets !== null) {
+    Object.keys(overrides)
+      .filter((key) => CONFIG_FIELDS[key].singleTarget)
+      .forEach((key) =>
+        errors.push(
+          `命令行参数 --${toFlagName(key)}：多目标配置中请在 targets 内设置`,
+        )
+      );
+  }
+  const top: ConfigFile = { ...file.defaults, ...fromEnv.layer, ...overrides };
+  errors.push(...validateProfiles(top.profiles));
+  if (errors.length > 0) {
+    throw new ConfigError(errors);
+  }
+
+  const layers = (file.targets ?? [{}]).map((target) => ({
+    ...file.defaults,
+    ...target,
+    ...fromEnv.layer,
+    ...overrides,
+  }));
+
+  const usedNames = new Set<string>();
+  const targets = layers.map((layer, index): TargetConfig => {
+    const partial = toPartialTarget(layer as TargetConfigFile);
+    let name = partial.name || deriveTargetName(partial, index);
+    // 名称重复时追加序号，保证日志可区分
+    if (usedNames.has(name)) {
+      name = `${name}#${index + 1}`;
+    }
+    usedNames.add(name);
+
+    const profile = partial.profile || DEFAULT_PROFILE_NAME;
+    const request = resolveProfile(top.profiles, profile);
+    if (!request) {
+      const prefix = layers.length > 1 ? `[${name}] ` : "";
+      errors.push(`${prefix}profile "${profile}" 未在 profiles 中定义`);
+    }
+
+    return {
+      name,
+      spaceUrl: partial.spaceUrl || "",
+      targetUrl: partial.targetUrl || "",
+      cookie: partial.cookie || "",
+      hfToken: partial.hfToken,
+      hubEndpoint: partial.hubEndpoint ?? DEFAULT_HUB_ENDPOINT,
+      hubRefreshInterval: partial.hubRefreshInterval ??
+        DEFAULT_HUB_REFRESH_INTERVAL,
+      interval: partial.interval ?? DEFAULT_INTERVAL,
+      schedule: partial.schedule ?? "",
+      scheduleJitter: partial.scheduleJitter ?? 0,
+      activeHours: partial.activeHours ?? [],
+      quietHours: partial.quietHours ?? [],
+      timezone: partial.timezone ?? "",
+      expectedStatusCodes: partial.expectedStatusCodes ??
+        DEFAULT_EXPECTED_STATUS_CODES,
+      maxRetries: partial.maxRetries ?? DEFAULT_MAX_RETRIES,
+      maxRedirects: partial.maxRedirects ?? DEFAULT_MAX_REDIRECTS,
+      retryBaseDelay: partial.retryBaseDelay ?? DEFAULT_RETRY_BASE_DELAY,
+      retryMaxDelay: partial.retryMaxDelay ?? DEFAULT_RETRY_MAX_DELAY,
+      retryJitter: partial.retryJitter ?? DEFAULT_RETRY_JITTER,
+      circuitBreakerThreshold: partial.circuitBreakerThreshold ??
+        DEFAULT_CIRCUIT_BREAKER_THRESHOLD,
+      circuitBreakerMaxInterval: partial.circuitBreakerMaxInterval ??
+        DEFAULT_CIRCUIT_BREAKER_MAX_INTERVAL,
+      useRuntimeApi: partial.useRuntimeApi ?? false,
+      cacheIframeUrl: partial.cacheIframeUrl ?? true,
+      failureMarkers: partial.failureMarkers ?? DEFAULT_FAILURE_MARKERS,
+      assertions: partial.assertions ?? [],
+      deepCheck: partial.deepCheck || "off",
+      deepCheckApi: partial.deepCheckApi ?? "",
+      deepCheckInput: partial.deepCheckInput ?? [],
+      deepCheckExpect: partial.deepCheckExpect ?? "",
+      deepCheckTimeout: partial.deepCheckTimeout ?? DEFAULT_DEEP_CHECK_TIMEOUT,
+      wakeUp: partial.wakeUp ?? false,
+      wakeMethod: partial.wakeMethod || "auto",
+      wakeTimeout: partial.wakeTimeout ?? DEFAULT_WAKE_TIMEOUT,
+      wakePollInterval: partial.wakePollInterval ?? DEFAULT_WAKE_POLL_INTERVAL,
+      cookieJarFile: partial.cookieJarFile,
+      cookieExpiryWarning: partial.cookieExpiryWarning ??
+        DEFAULT_COOKIE_EXPIRY_WARNING,
+      notifiers: partial.notifiers ?? [],
+      profile,
+      request: request ?? resolveProfile(undefined, DEFAULT_PROFILE_NAME)!,
+      proxy: partial.proxy ?? "",
+      noProxy: partial.noProxy ?? [],
+      caFile: partial.caFile || undefined,
+      maxConnections: partial.maxConnections ?? 0,
+      keepAliveTimeout: partial.keepAliveTimeout ?? DEFAULT_KEEP_ALIVE_TIMEOUT,
+    };
+  });
+
+  if (errors.length > 0) {
+    throw new ConfigError(errors);
+  }
+
+  return {
+    targets,
+    http: loadHttpConfig(top),
+    history: {
+      file: top.historyFile || null,
+      retention: top.historyRetention ?? DEFAULT_HISTORY_RETENTION,
+    },
+    shutdownTimeout: top.shutdownTimeout ?? DEFAULT_SHUTDOWN_TIMEOUT,
+  };
+}
+
+/**
+ * 读取日志配置（命令行参数优先于环境变量）
+ */
+export function loadLoggingConfig(
+  cli: { level?: string; format?: string } = {},
+): LoggingConfig {
+  const level = parseLogLevel(cli.level || env.LOG_LEVEL || "info");
+  if (!level) {
+    console.error("❌ 错误：LOG_LEVEL 必须是 debug、info、warn 或 error");
+    process.exit(1);
+  }
+
+  const format = cli.format || env.LOG_FORMAT || "text";
+  if (format !== "text" && format !== "json") {
+    console.error("❌ 错误：LOG_FORMAT 必须是 text 或 json");
+    process.exit(1);
+  }
+
+  return { level, format, redact: env.DEBUG_SECRETS !== "true" };
+}
+
+/**
+ * 补齐内置 HTTP 状态服务的配置
+ */
+function loadHttpConfig(top: ConfigFile): HttpServerConfig {
+  return {
+    enabled: top.httpEnabled ?? true,
+    host: top.httpHost || DEFAULT_HTTP_HOST,
+    port: top.httpPort ?? DEFAULT_HTTP_PORT,
+    token: top.httpToken ?? "",
+  };
+}
+
+// ==================== 验证函数 ====================
+
+/**
+ * 验证必要的配置项
+ * @returns 不影响运行、但可能配置有误的警告
+ * @throws ConfigError 配置无效时抛出，包含所有错误
+ */
+export function validateConfig(config: Config): string[] {
+  if (config.targets.length === 0) {
+    throw new ConfigError(["配置文件中的 targets 为空"]);
+  }
+
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  for (const target of config.targets) {
+    const prefix = config.targets.length > 1 ? `[${target.name}] ` : "";
+
+    if (!target.spaceUrl && !target.targetUrl) {
+      errors.push(
+        `${prefix}未设置 SPACE_URL 或 TARGET_URL（如 SPACE_URL="https://huggingface.co/spaces/username/space-name"）`,
+      );
+    }
+
+    // 使用 HF 访问令牌时 Cookie 由 Hub API 自动获取
+    if (!target.cookie && !target.hfToken) {
+      errors.push(
+        `${prefix}未设置 CURRENT_COOKIE 或 HF_TOKEN（如 CURRENT_COOKIE="token=..." 或 HF_TOKEN="hf_..."）`,
+      );
+    }
+
+    if (target.hfToken) {
+      if (!parseSpaceId(target.spaceUrl)) {
+        errors.push(
+          `${prefix}使用 HF_TOKEN 时 SPACE_URL 必须是 https://huggingface.co/spaces/用户名/Space名称 格式`,
+        );
+      }
+      try {
+        new URL(target.hubEndpoint);
+      } catch {
+        errors.push(`${prefix}HF_ENDPOINT 格式无效`);
+      }
+      if (!target.hfToken.startsWith("hf_")) {
+        warnings.push(`${prefix}HF_TOKEN 通常以 hf_ 开头，请确认令牌是否正确`);
+      }
+    }
+
+    // 验证SPACE_URL格式（如果设置了）
+    if (target.spaceUrl) {
+      try {
+        new URL(target.spaceUrl);
+      } catch {
+        errors.push(`${prefix}SPACE_URL 格式无效`);
+      }
+    }
+
+    // 验证TARGET_URL格式（如果设置了）
+    if (target.targetUrl) {
+      try {
+        new URL(target.targetUrl);
+      } catch {
+        errors.push(`${prefix}TARGET_URL 格式无效`);
+      }
+    }
+
+    // 验证重试退避参数
+    if (target.retryMaxDelay < target.retryBaseDelay) {
+      errors.push(`${prefix}RETRY_MAX_DELAY 不能小于 RETRY_BASE_DELAY`);
+    }
+
+    // 验证 cron 表达式、时间窗口与时区
+    validateCalendar(target).forEach((error) =>
+      errors.push(`${prefix}${error}`)
+    );
+
+    // 验证深度保活
+    if (!DEEP_CHECK_MODES.includes(target.deepCheck)) {
+      errors.push(
+        `${prefix}DEEP_CHECK 必须是 ${DEEP_CHECK_MODES.join("、")} 之一`,
+      );
+    } else if (
+      target.deepCheckApi &&
+      target.deepCheck !== "gradio" && target.deepCheck !== "auto"
+    ) {
+      errors.push(`${prefix}DEEP_CHECK_API 只能用于 gradio 或 auto 模式`);
+    }
+    if (
+      (target.deepCheckInput.length > 0 || target.deepCheckExpect) &&
+      !target.deepCheckApi
+    ) {
+      errors.push(`${prefix}DEEP_CHECK_INPUT 与 DEEP_CHECK_EXPECT 需要同时设置 DEEP_CHECK_API`);
+    }
+
+    // 验证唤醒配置
+    if (!WAKE_METHODS.includes(target.wakeMethod)) {
+      errors.push(`${prefix}WAKE_METHOD 必须是 ${WAKE_METHODS.join("、")} 之一`);
+    } else if (
+      target.wakeMethod === "hub" &&
+      (!target.hfToken || !parseSpaceId(target.spaceUrl))
+    ) {
+      errors.push(`${prefix}WAKE_METHOD=hub 需要设置 HF_TOKEN 与有效的 SPACE_URL`);
+    }
+    if (target.wakePollInterval >= target.wakeTimeout) {
+      errors.push(`${prefix}WAKE_POLL_INTERVAL 必须小于 WAKE_TIMEOUT`);
+    }
+
+    // 验证代理（含 HTTPS_PROXY / HTTP_PROXY）与 CA 证书
+    const proxy = resolveProxy(target);
+    if (proxy) {
+      let protocol: string | null = null;
+      try {
+        protocol = new URL(proxy).protocol;
+      } catch {
+        errors.push(`${prefix}代理地址格式无效`);
+      }
+      if (protocol && !PROXY_PROTOCOLS.includes(protocol)) {
+        errors.push(
+          `${prefix}不支持的代理协议 ${protocol}，可用：http、https、socks5、socks5h`,
+        );
+      }
+    }
+    if (target.caFile && !existsSync(target.caFile)) {
+      errors.push(`${prefix}CA 证书文件不存在：${target.caFile}`);
+    }
+
+    // 验证自定义断言与通知器
+    validateAssertions(target.assertions).forEach((error) =>
+      errors.push(`${prefix}${error}`)
+    );
+    validateNotifiers(target.notifiers).forEach((error) =>
+      errors.push(`${prefix}${error}`)
+    );
+  }
+
+  if (errors.length > 0) {
+    throw new ConfigError(errors);
+  }
+  return warnings;
+}
@@ -0,0 +1,138 @@
+/**
+ * Cookie 过期预测
+ *
+ * Cookie 的有效期取以下两者中较早的一个：
+ * - Set-Cookie 的 Expires / Max-Age（已记录在 Cookie Jar 中）
+ * - 值为 JWT 时的 exp 声明（例如 spaces-jwt）
+ *
+ * 剩余时间进入 cookieExpiryWarning 窗口时，通过日志和通知器提醒，
+ * 便于在 Space 失联之前更换 Cookie。同一个 Cookie 进入窗口后只提醒一次，
+ * 续期到窗口之外后再次进入窗口时会重新提醒。
+ */
+
+import type { StoredCookie } from "./cookie-jar.js";
+import { getJwtExpiry } from "./hub-auth.js";
+import { dispatchNotification } from "./notifiers/index.js";
+import type { Target } from "./target.js";
+import { formatDuration, getTimestamp } from "./utils.js";
+
+/**
+ * 单个 Cookie 的过期预测
+ */
+export interface CredentialExpiry {
+  name: string;
+  domain: string;
+  path: string;
+  expiresAt: number;
+  // 过期时间的来源
+  source: "jwt" | "cookie";
+  expiringSoon: boolean;
+}
+
+// 已提醒过、且仍在提醒窗口内的 Cookie（名称与作用域）
+const warned = new WeakMap<Target, Set<string>>();
+
+/**
+ * 计算单个 Cookie 的过期时间
+ * @returns 会话 Cookie 且值不是 JWT 时返回 null
+ */
+export function getCookieExpiry(
+  cookie: StoredCookie,
+): { expiresAt: number; source: "jwt" | "cookie" } | null {
+  const jwtExpiry = /^[\w-]+\.[\w-]+\.[\w-]*$/.test(cookie.value)
+    ? getJwtExpiry(cookie.value)
+    : null;
+
+  if (
+    jwtExpiry !== null &&
+    (cookie.expires === null || jwtExpiry < cookie.expires)
+  ) {
+    return { expiresAt: jwtExpiry, source: "jwt" };
+  }
+  if (cookie.expires !== null) {
+    return { expiresAt: cookie.expires, source: "cookie" };
+  }
+  return null;
+}
+
+/**
+ * 预测目标所有 Cookie 的过期时间，按过期时间升序排列
+ * 由 Hub API 自动续期的 spaces-jwt 不在预测范围内
+ */
+export function forecastCookieExpiry(
+  target: Target,
+  now = Date.now(),
+): CredentialExpiry[] {
+  const { cookieExpiryWarning } = target.config;
+  const managedJwt = target.hubCredentials?.jwt;
+
+  return target.cookieStorage
+    .filter((cookie) => cookie.value !== managedJwt)
+    .flatMap((cookie): CredentialExpiry[] => {
+      const expiry = getCookieExpiry(cookie);
+      if (!expiry) return [];
+      return [{
+        name: cookie.name,
+        domain: cookie.domain,
+        path: cookie.path,
+        ...expiry,
+        expiringSoon: cookieExpiryWarning > 0 &&
+          expiry.expiresAt - now <= cookieExpiryWarning,
+      }];
+    })
+    .sort((a, b) => a.expiresAt - b.expiresAt);
+}
+
+/**
+ * 更新目标的 Cookie 有效期，并对即将过期的 Cookie 发出提醒
+ */
+export async function checkCookieExpiry(target: Target): Promise<void> {
+  const { name } = target.config;
+  const now = Date.now();
+  const timestamp = getTimestamp();
+  const forecast = forecastCookieExpiry(target, now);
+  target.status.credentials = forecast;
+
+  if (forecast.length === 0) return;
+
+  target.log.info(
+    `🕒 Cookie 有效期：${
+      forecast.map((item) =>
+        `${item.name} ${item.expiresAt > now ? `剩余 ${formatDuration(item.expiresAt - now)}` : "已过期"}`
+      ).join("，")
+    }`,
+  );
+
+  const previous = warned.get(target) ?? new Set<string>();
+  const current = new Set<string>();
+
+  for (const item of forecast.filter((entry) => entry.expiringSoon)) {
+    const key = `${item.name}@${item.domain}${item.path}`;
+    current.add(key);
+    if (previous.has(key)) continue;
+
+    const remaining = item.expiresAt - now;
+    const message = remaining > 0
+      ? `Cookie ${item.name}（${item.domain}）将在 ${formatDuration(remaining)} 后过期（${new Date(item.expiresAt).toISOString()}），请及时更换`
+      : `Cookie ${item.name}（${item.domain}）已于 ${new Date(item.expiresAt).toISOString()} 过期，请更换`;
+    target.log.warn(`⏰ ${message}`, {
+      cookie: item.name,
+      expiresAt: new Date(item.expiresAt).toISOString(),
+    });
+
+    await dispatchNotification(target, {
+      kind: "cookieExpiry",
+      target: name,
+      status: target.status.lastResult ?? "up",
+      previousStatus: target.status.lastResult,
+      isTransition: true,
+      message,
+      timestamp,
+      spaceUrl: target.config.spaceUrl,
+      targetUrl: target.config.targetUrl,
+    });
+  }
+
+  // 只保留仍在提醒窗口内的记录
+  warned.set(target, current);
+}
@@ -0,0 +1,294 @@
+/**
+ * 符合 RFC 6265 的 Cookie Jar
+ *
+ * 处理 Set-Cookie 的 Domain、Path、Expires / Max-Age、Secure 属性：
+ * - Domain：未设置时为 host-only Cookie，只发送给完全相同的主机；
+ *   设置后同时发送给该域名及其子域名（如 .huggingface.co）。
+ *   Domain 为公共后缀（如 hf.space、单段域名）时拒绝，避免一个 Space 设置的 Cookie 发送给所有 Space
+ * - Path：未设置时使用请求路径的默认路径，只发送给匹配的路径
+ * - Expires / Max-Age：Max-Age 优先；过期时间早于当前时间即视为删除
+ * - Secure：只通过 https 发送
+ *
+ * 这里只包含纯函数，不做日志输出，便于单独验证。
+ */
+
+import * as cookie from "cookie";
+
+/**
+ * Cookie Jar 中保存的一条 Cookie
+ */
+export interface StoredCookie {
+  name: string;
+  value: string;
+  // 规范化后的域名（小写，不含前导点）
+  domain: string;
+  hostOnly: boolean;
+  path: string;
+  // 过期时间（毫秒时间戳），null 表示会话 Cookie
+  expires: number | null;
+  secure: boolean;
+  httpOnly: boolean;
+  creationTime: number;
+}
+
+export type CookieJar = StoredCookie[];
+
+/**
+ * 处理一条 Set-Cookie 的结果
+ */
+export type SetCookieResult =
+  | { action: "stored"; cookie: StoredCookie; previousValue: string | null }
+  | { action: "deleted"; cookie: StoredCookie }
+  | { action: "rejected"; reason: string };
+
+/**
+ * 规范化域名：小写并去掉前导点
+ */
+function canonicalizeDomain(domain: string): string {
+  return domain.trim().replace(/^\./, "").toLowerCase();
+}
+
+// 常见的多段公共后缀（不是完整的 Public Suffix List，只覆盖本工具会访问到的域名）
+const PUBLIC_SUFFIXES = new Set([
+  "hf.space",
+  "github.io",
+  "co.uk",
+  "com.cn",
+  "net.cn",
+  "org.cn",
+  "com.au",
+  "co.jp",
+  "com.br",
+]);
+
+/**
+ * 判断域名是否为公共后缀：单段域名或已知的多段公共后缀
+ */
+export function isPublicSuffix(domain: string): boolean {
+  return !domain.includes(".") || PUBLIC_SUFFIXES.has(domain);
+}
+
+/**
+ * 判断主机名是否为 IP 地址（IP 只能完全匹配）
+ */
+function isIpAddress(host: string): boolean {
+  return /^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.includes(":");
+}
+
+/**
+ * RFC 6265 5.1.3 域名匹配
+ */
+export function domainMatches(host: string, domain: string): boolean {
+  if (host === domain) return true;
+  return !isIpAddress(host) && host.endsWith(`.${domain}`);
+}
+
+/**
+ * RFC 6265 5.1.4 默认路径
+ */
+export function defaultPath(requestPath: string): string {
+  if (!requestPath.startsWith("/")) return "/";
+  const lastSlash = requestPath.lastIndexOf("/");
+  return lastSlash === 0 ? "/" : requestPath.substring(0, lastSlash);
+}
+
+/**
+ * RFC 6265 5.1.4 路径匹配
+ */
+export function pathMatches(requestPath: string, cookiePath: string): boolean {
+  if (requestPath === cookiePath) return true;
+  if (!requestPath.startsWith(cookiePath)) return false;
+  return cookiePath.endsWith("/") || requestPath[cookiePath.length] === "/";
+}
+
+/**
+ * 判断 Cookie 是否已过期
+ */
+function isExpired(stored: StoredCookie, now: number): boolean {
+  return stored.expires !== null && stored.expires <= now;
+}
+
+/**
+ * 查找同名、同域、同路径的 Cookie 下标
+ */
+function findCookieIndex(jar: CookieJar, target: StoredCookie): number {
+  return jar.findIndex((stored) =>
+    stored.name === target.name &&
+    stored.domain === target.domain &&
+    stored.path === target.path
+  );
+}
+
+/**
+ * 添加或替换一条 Cookie（同名、同域、同路径时替换，并保留创建时间）
+ * @returns 被替换的旧值，新增时返回 null
+ */
+export function putCookie(jar: CookieJar, stored: StoredCookie): string | null {
+  const index = findCookieIndex(jar, stored);
+  if (index === -1) {
+    jar.push(stored);
+    return null;
+  }
+
+  const previous = jar[index];
+  jar[index] = { ...stored, creationTime: previous.creationTime };
+  return previous.value;
+}
+
+/**
+ * 为指定 URL 创建一条 host-only、路径为 / 的会话 Cookie
+ * 用于导入配置中的 CURRENT_COOKIE（它不携带任何属性）
+ */
+export function createHostCookie(
+  url: string,
+  name: string,
+  value: string,
+  now = Date.now(),
+): StoredCookie {
+  return {
+    name,
+    value,
+    domain: new URL(url).hostname.toLowerCase(),
+    hostOnly: true,
+    path: "/",
+    expires: null,
+    secure: false,
+    httpOnly: false,
+    creationTime: now,
+  };
+}
+
+/**
+ * 按 RFC 6265 5.3 处理一条 Set-Cookie 响应头
+ * @param url 返回该 Set-Cookie 的请求 URL
+ */
+export function applySetCookie(
+  jar: CookieJar,
+  url: string,
+  setCookieHeader: string,
+  now = Date.now(),
+): SetCookieResult {
+  const requestUrl = new URL(url);
+  const host = requestUrl.hostname.toLowerCase();
+  const parsed = cookie.parseSetCookie(setCookieHeader);
+
+  if (!parsed.name) {
+    return { action: "rejected", reason: "缺少 Cookie 名称" };
+  }
+
+  // Domain：必须能匹配当前主机，否则拒绝
+  let domain = host;
+  let hostOnly = true;
+  if (parsed.domain) {
+    const cookieDomain = canonicalizeDomain(parsed.domain);
+    // RFC 6265 5.3 第 5 步：Domain 为公共后缀时，只有与主机完全相同才接受（按 host-only 处理）
+    if (cookieDomain && isPublicSuffix(cookieDomain)) {
+      if (cookieDomain !== host) {
+        return {
+          action: "rejected",
+          reason: `Domain=${parsed.domain} 是公共后缀`,
+        };
+      }
+    } else if (cookieDomain && cookieDomain !== host) {
+      if (!domainMatches(host, cookieDomain)) {
+        return {
+          action: "rejected",
+          reason: `Domain=${parsed.domain} 与请求主机 ${host} 不匹配`,
+        };
+      }
+      domain = cookieDomain;
+      hostOnly = false;
+    } else if (cookieDomain) {
+      hostOnly = false;
+    }
+  }
+
+  // Path：未设置或不以 / 开头时使用默认路径
+  const path = parsed.path && parsed.path.startsWith("/")
+    ? parsed.path
+    : defaultPath(requestUrl.pathname);
+
+  // Max-Age 优先于 Expires
+  let expires: number | null = null;
+  if (parsed.maxAge !== undefined && Number.isFinite(parsed.maxAge)) {
+    expires = parsed.maxAge <= 0 ? 0 : now + parsed.maxAge * 1000;
+  } else if (parsed.expires && !isNaN(parsed.expires.getTime())) {
+    expires = parsed.expires.getTime();
+  }
+
+  const stored: StoredCookie = {
+    name: parsed.name,
+    value: parsed.value ?? "",
+    domain,
+    hostOnly,
+    path,
+    expires,
+    secure: parsed.secure ?? false,
+    httpOnly: parsed.httpOnly ?? false,
+    creationTime: now,
+  };
+
+  // 已过期的 Cookie 表示删除
+  if (isExpired(stored, now)) {
+    const index = findCookieIndex(jar, stored);
+    if (index !== -1) {
+      jar.splice(index, 1);
+    }
+    return { action: "deleted", cookie: stored };
+  }
+
+  const previousValue = putCookie(jar, stored);
+  return { action: "stored", cookie: stored, previousValue };
+}
+
+/**
+ * 移除所有已过期的 Cookie
+ * @returns 被移除的 Cookie
+ */
+export function removeExpiredCookies(
+  jar: CookieJar,
+  now = Date.now(),
+): StoredCookie[] {
+  const expired = jar.filter((stored) => isExpired(stored, now));
+  if (expired.length > 0) {
+    const remaining = jar.filter((stored) => !isExpired(stored, now));
+    jar.splice(0, jar.length, ...remaining);
+  }
+  return expired;
+}
+
+/**
+ * 按 RFC 6265 5.4 选出应发送给指定 URL 的 Cookie
+ * 路径更长的排在前面，路径相同时先创建的排在前面
+ */
+export function getApplicableCookies(
+  jar: CookieJar,
+  url: string,
+  now = Date.now(),
+): StoredCookie[] {
+  const requestUrl = new URL(url);
+  const host = requestUrl.hostname.toLowerCase();
+  const isSecure = requestUrl.protocol === "https:";
+
+  return jar
+    .filter((stored) => {
+      if (isExpired(stored, now)) return false;
+      if (stored.secure && !isSecure) return false;
+      const hostMatches = stored.hostOnly
+        ? host === stored.domain
+        : domainMatches(host, stored.domain);
+      return hostMatches && pathMatches(requestUrl.pathname, stored.path);
+    })
+    .sort((a, b) =>
+      b.path.length - a.path.length || a.creationTime - b.creationTime
+    );
+}
+
+/**
+ * 将 Cookie 列表序列化为 Cookie 请求头
+ */
+export function formatCookieHeader(cookies: StoredCookie[]): string {
+  return cookies
+    .map((stored) => cookie.stringifyCookie({ [stored.name]: stored.value }))
+    .join("; ");
+}
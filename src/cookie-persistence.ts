@@ -0,0 +1,138 @@
+/**
+ * Cookie 持久化
+ *
+ * 将刷新后的 Cookie 写入 JSON 文件，容器重启后优先从文件恢复，
+ * 避免回退到已经过期的 CURRENT_COOKIE。
+ *
+ * 多个目标可以共用同一个文件，按目标名称分别存储。
+ * 文件中记录了写入时所用配置 Cookie 的哈希：如果配置中的 Cookie 已被修改，
+ * 说明用户提供了更新的 Cookie，此时忽略文件中的旧数据。
+ */
+
+import { createHash } from "crypto";
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from "fs";
+import { dirname, resolve } from "path";
+import type { CookieJar } from "./cookie-jar.js";
+import { logger } from "./logger.js";
+import type { Target } from "./target.js";
+
+/**
+ * 单个目标的持久化记录
+ */
+interface PersistedTarget {
+  updatedAt: string;
+  sourceCookieHash: string;
+  cookies: CookieJar;
+}
+
+/**
+ * Cookie 文件格式
+ */
+interface CookieJarFile {
+  version: typeof FILE_VERSION;
+  targets: Record<string, PersistedTarget>;
+}
+
+// 文件格式版本，格式变化时递增，旧版本文件将被忽略
+const FILE_VERSION = 2;
+
+/**
+ * 计算配置 Cookie 的哈希，用于判断配置是否被修改
+ */
+function hashCookie(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+/**
+ * 读取 Cookie 文件，文件不存在或格式错误时返回空结构
+ */
+function readCookieJarFile(path: string): CookieJarFile {
+  if (!existsSync(path)) {
+    return { version: FILE_VERSION, targets: {} };
+  }
+
+  try {
+    const data = JSON.parse(readFileSync(path, "utf-8")) as CookieJarFile;
+    if (
+      data && data.version === FILE_VERSION &&
+      typeof data.targets === "object" && data.targets !== null
+    ) {
+      return data;
+    }
+    logger.warn(`⚠️ Cookie 文件格式无效或版本不兼容，将被覆盖：${path}`);
+  } catch (error) {
+    logger.warn(`⚠️ 读取 Cookie 文件失败，将被覆盖：${path} (${error})`);
+  }
+  return { version: FILE_VERSION, targets: {} };
+}
+
+/**
+ * 原子写入：先写临时文件再重命名，避免进程中断时留下半个文件
+ */
+function writeFileAtomic(path: string, content: string): void {
+  mkdirSync(dirname(path), { recursive: true });
+  const tempPath = `${path}.${process.pid}.tmp`;
+  writeFileSync(tempPath, content, { encoding: "utf-8", mode: 0o600 });
+  renameSync(tempPath, path);
+}
+
+/**
+ * 从 Cookie 文件恢复目标的 Cookie
+ * @returns 是否成功恢复
+ */
+export function restoreCookies(target: Target): boolean {
+  const { cookieJarFile, name, cookie } = target.config;
+  if (!cookieJarFile) return false;
+
+  const path = resolve(cookieJarFile);
+  const persisted = readCookieJarFile(path).targets[name];
+
+  if (!persisted) {
+    target.log.info("🍪 Cookie 文件中没有该目标的记录，使用配置中的 Cookie");
+    return false;
+  }
+
+  if (persisted.sourceCookieHash !== hashCookie(cookie)) {
+    target.log.info("🍪 配置中的 Cookie 已更新，忽略 Cookie 文件中的旧记录");
+    return false;
+  }
+
+  target.cookieStorage.splice(
+    0,
+    target.cookieStorage.length,
+    ...persisted.cookies,
+  );
+
+  target.log.info(
+    `✅ 已从 Cookie 文件恢复 Cookie（保存于 ${persisted.updatedAt}）：${path}`,
+  );
+  return true;
+}
+
+/**
+ * 将目标当前的 Cookie 写入 Cookie 文件
+ */
+export function persistCookies(target: Target): void {
+  const { cookieJarFile, name, cookie } = target.config;
+  if (!cookieJarFile) return;
+
+  const path = resolve(cookieJarFile);
+
+  try {
+    const data = readCookieJarFile(path);
+    data.targets[name] = {
+      updatedAt: new Date().toISOString(),
+      sourceCookieHash: hashCookie(cookie),
+      cookies: target.cookieStorage,
+    };
+    writeFileAtomic(path, JSON.stringify(data, null, 2));
+  } catch (error) {
+    target.log.warn(`⚠️ 写入 Cookie 文件失败：${error}`);
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Cookie管理
+ *
+ * 每个目标持有一个 Cookie Jar（见 cookie-jar.ts），按 RFC 6265 处理
+ * Domain、Path、过期时间和 Secure 属性
+ */
+
+import * as cookie from "cookie";
+import {
+  applySetCookie,
+  type CookieJar,
+  createHostCookie,
+  formatCookieHeader,
+  getApplicableCookies,
+  putCookie,
+  removeExpiredCookies,
+} from "./cookie-jar.js";
+import { persistCookies, restoreCookies } from "./cookie-persistence.js";
+import { redactSecret } from "./logger.js";
+import { cookieLastUpdated, cookieUpdates } from "./metrics.js";
+import type { TargetConfig } from "./config.js";
+import type { Target } from "./target.js";
+
+/**
+ * 从 URL 中提取域名
+ */
+function extractDomain(url: string): string {
+  try {
+    const urlObj = new URL(url);
+    return urlObj.hostname;
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * 获取配置中各 URL 的域名（去重），值为该域名下的一个 URL
+ */
+function getConfigDomains(config: TargetConfig): Map<string, string> {
+  const urls: string[] = [];
+  if (config.spaceUrl) urls.push(config.spaceUrl);
+  if (config.targetUrl) urls.push(config.targetUrl);
+
+  const uniqueDomains = new Map<string, string>();
+  for (const url of urls) {
+    const domain = extractDomain(url);
+    if (domain && !uniqueDomains.has(domain)) {
+      uniqueDomains.set(domain, url);
+    }
+  }
+  return uniqueDomains;
+}
+
+/**
+ * 将 Cookie Jar 格式化为日志输出（Cookie 值已脱敏）
+ */
+function formatJarForLog(jar: CookieJar, indent: number): string {
+  return JSON.stringify(
+    jar.map((stored) => ({ ...stored, value: redactSecret(stored.value) })),
+    null,
+    indent,
+  );
+}
+
+/**
+ * 从 Cookie 文件与配置中导入 Cookie
+ * @throws Cookie 或 URL 无法解析时抛出
+ */
+export function importCookies(target: Target): void {
+  const { config, cookieStorage } = target;
+  const uniqueDomains = getConfigDomains(config);
+  const parsed = cookie.parseCookie(config.cookie);
+
+  // 优先从 Cookie 文件恢复上次刷新后的 Cookie
+  restoreCookies(target);
+
+  // 配置中的 Cookie 作为 host-only Cookie 导入每个域名（已从文件恢复的域名保持不变）
+  uniqueDomains.forEach((url, domain) => {
+    if (getApplicableCookies(cookieStorage, url).length > 0) return;
+
+    Object.entries(parsed).forEach(([key, value]) => {
+      if (value !== undefined) {
+        putCookie(cookieStorage, createHostCookie(url, key, value));
+      }
+    });
+  });
+
+  target.log.info("✅ Cookie解析成功");
+  target.log.info(
+    `🍪 已为以下域名初始化 Cookie：${[...uniqueDomains.keys()].join(", ")}`,
+  );
+  target.log.debug(`🍪 Cookie内容：${formatJarForLog(cookieStorage, 2)}`);
+}
+
+/**
+ * 初始化Cookie，失败时退出进程
+ */
+export function initCookie(target: Target): void {
+  try {
+    importCookies(target);
+  } catch (error) {
+    target.log.error(`❌ Cookie解析失败：${error}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * 配置重新加载后，将配置中的 Cookie 合并进 Cookie Jar
+ *
+ * 只导入与旧配置相比新增或改动的 Cookie，运行中刷新过的其余 Cookie 保持不变；
+ * 新出现的域名导入全部 Cookie
+ */
+export function mergeConfigCookies(
+  target: Target,
+  previous: TargetConfig,
+): void {
+  const { config, cookieStorage } = target;
+  const parsed = cookie.parseCookie(config.cookie);
+  const previousParsed = cookie.parseCookie(previous.cookie);
+  const previousDomains = getConfigDomains(previous);
+
+  const imported = new Set<string>();
+  getConfigDomains(config).forEach((url, domain) => {
+    const isNewDomain = !previousDomains.has(domain) &&
+      getApplicableCookies(cookieStorage, url).length === 0;
+
+    Object.entries(parsed).forEach(([key, value]) => {
+      if (value === undefined) return;
+      if (!isNewDomain && previousParsed[key] === value) return;
+      putCookie(cookieStorage, createHostCookie(url, key, value));
+      imported.add(key);
+    });
+  });
+
+  if (imported.size > 0) {
+    persistCookies(target);
+    target.log.info(`🍪 已从新配置导入 Cookie：${[...imported].join(", ")}`);
+    target.log.debug(`🍪 Cookie内容：${formatJarForLog(cookieStorage, 2)}`);
+  }
+}
+
+/**
+ * 将适用于目标 URL 的 Cookie 序列化为请求头格式
+ * @param url 目标 URL，按域名、路径、Secure 和过期时间筛选 Cookie
+ */
+export function serializeCookie(target: Target, url: string): string {
+  const { cookieStorage } = target;
+
+  // 先清理已过期的 Cookie
+  const expired = removeExpiredCookies(cookieStorage);
+  if (expired.length > 0) {
+    target.log.info(
+      `🍪 已移除 ${expired.length} 个过期Cookie：${expired.map((c) => c.name).join(", ")}`,
+    );
+    persistCookies(target);
+  }
+
+  const applicable = getApplicableCookies(cookieStorage, url);
+
+  if (applicable.length === 0) {
+    // 如果没有找到适用的 Cookie，返回空字符串
+    target.log.warn(`⚠️ 未找到适用于 [${extractDomain(url)}] 的 Cookie`);
+    return "";
+  }
+  target.log.debug(formatJarForLog(cookieStorage, 4));
+  return formatCookieHeader(applicable);
+}
+
+/**
+ * 更新Cookie（处理服务器返回的Set-Cookie头）
+ * @param url 请求的 URL，作为 Set-Cookie 的默认域名和路径
+ */
+export function updateCookies(
+  target: Target,
+  url: string,
+  setCookieHeaders: string[],
+): void {
+  const { cookieStorage } = target;
+  const domain = extractDomain(url);
+
+  if (!domain) {
+    target.log.warn("⚠️ 无法从 URL 提取域名，跳过 Cookie 更新");
+    return;
+  }
+
+  let updateCount = 0;
+
+  for (const setCookieHeader of setCookieHeaders) {
+    try {
+      const result = applySetCookie(cookieStorage, url, setCookieHeader);
+
+      if (result.action === "rejected") {
+        target.log.warn(`⚠️ 忽略Set-Cookie：${result.reason}`);
+        continue;
+      }
+
+      updateCount++;
+      const { name, value, domain: cookieDomain, path } = result.cookie;
+
+      if (result.action === "deleted") {
+        target.log.info(`🗑️ 删除Cookie: ${name} (${cookieDomain}${path})`);
+      } else if (result.previousValue !== value) {
+        // 只在值真正改变时记录
+        target.log.info(
+          `✅ 更新Cookie: ${name} (${cookieDomain}${path}) = ${redactSecret(value)}`,
+        );
+      }
+    } catch (error) {
+      target.log.warn(`⚠️ 解析Set-Cookie失败：${error}`);
+    }
+  }
+
+  if (updateCount > 0) {
+    const metricLabels = { target: target.config.name, domain };
+    cookieUpdates.inc(metricLabels, updateCount);
+    cookieLastUpdated.set(metricLabels, Date.now() / 1000);
+    persistCookies(target);
+
+    target.log.info(`🍪 已更新域名 [${domain}] 的 ${updateCount} 个Cookie`);
+    target.log.debug(formatJarForLog(cookieStorage, 4));
+  }
+}
+
+/**
+ * 从响应头中取出 Set-Cookie 并更新 Cookie
+ */
+export function handleSetCookieHeader(
+  target: Target,
+  url: string,
+  setCookieHeaders: string | string[] | undefined,
+): void {
+  if (!setCookieHeaders) return;
+
+  // undici 可能返回 string 或 string[]
+  const headers = Array.isArray(setCookieHeaders)
+    ? setCookieHeaders
+    : [setCookieHeaders];
+  if (headers.length > 0) {
+    updateCookies(target, url, headers);
+  }
+}
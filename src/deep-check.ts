@@ -0,0 +1,449 @@
+/**
+ * 深度保活：与 Gradio / Streamlit 应用实际交互
+ *
+ * 只 GET 一次页面 HTML 不一定会被 Space 计为活动（Gradio 的会话走 SSE / WebSocket）。
+ * 开启 deepCheck 后，保活请求成功之后再对应用本身做一次交互：
+ * - gradio：读取 /config；配置了 deepCheckApi 时调用该接口（/call/{api}，SSE 返回结果），
+ *   否则打开一次队列心跳 SSE（/heartbeat/{session}）
+ * - streamlit：检查 /_stcore/health，并建立一次 /_stcore/stream WebSocket 会话
+ * - auto：依次探测 Gradio 的 /config 与 Streamlit 的健康检查接口，自动选择
+ *
+ * 所有请求都基于解析出的应用 URL（iframe URL 或 TARGET_URL），携带其 __sign 参数与 Cookie，
+ * 因此也可以直接指向本地的 Gradio / Streamlit 服务测试。
+ */
+
+import { randomBytes } from "crypto";
+import { type Dispatcher, WebSocket } from "undici";
+import { serializeCookie } from "./cookies.js";
+import { readBody, requestWithRedirects } from "./http-client.js";
+import type { Logger } from "./logger.js";
+import type { RequestMethod } from "./profiles.js";
+import type { Target } from "./target.js";
+
+export type DeepCheckMode = "off" | "auto" | "gradio" | "streamlit";
+
+export const DEEP_CHECK_MODES: DeepCheckMode[] = [
+  "off",
+  "auto",
+  "gradio",
+  "streamlit",
+];
+
+export type AppFramework = "gradio" | "streamlit";
+
+/**
+ * 一次深度保活的结果
+ */
+export interface DeepCheckResult {
+  framework: AppFramework;
+  // 框架版本，无法获取时为 null
+  version: string | null;
+  // 依次完成的交互，如 /config、/call/predict
+  steps: string[];
+  durationMs: number;
+}
+
+/**
+ * 应用有响应，但交互结果不符合预期
+ */
+export class DeepCheckError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DeepCheckError";
+  }
+}
+
+/**
+ * 一次深度保活的上下文
+ */
+interface DeepCheckContext {
+  target: Target;
+  // 应用根地址（不含查询参数）
+  base: URL;
+  // iframe URL 中的 __sign 参数
+  sign: string | null;
+  log: Logger;
+  signal: AbortSignal;
+}
+
+/**
+ * 一个 SSE 事件
+ */
+interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+// 读取健康检查等小响应时最多读取的字节数
+const MAX_PROBE_BODY = 64 * 1024;
+
+// ==================== 请求 ====================
+
+/**
+ * 拼出应用下某个路径的 URL，并带上 __sign 参数
+ */
+function buildUrl(context: DeepCheckContext, path: string): string {
+  const url = new URL(context.base);
+  url.pathname = `${url.pathname.replace(/\/$/, "")}${path}`;
+  if (context.sign) url.searchParams.set("__sign", context.sign);
+  return url.toString();
+}
+
+/**
+ * 向应用发送请求
+ */
+function send(
+  context: DeepCheckContext,
+  path: string,
+  options: {
+    method?: RequestMethod;
+    body?: string;
+    accept: string;
+  },
+): Promise<Dispatcher.ResponseData> {
+  const { config } = context.target;
+  return requestWithRedirects(context.target, buildUrl(context, path), {
+    method: options.method,
+    body: options.body,
+    headers: {
+      "Accept": options.accept,
+      "User-Agent": config.request.userAgent,
+      ...(options.body ? { "Content-Type": "application/json" } : {}),
+    },
+    headersTimeout: config.deepCheckTimeout,
+    bodyTimeout: config.deepCheckTimeout,
+    signal: context.signal,
+  }).then(({ response }) => response);
+}
+
+/**
+ * 请求 JSON 接口
+ * @returns 状态码不是 200 时返回 null
+ */
+async function fetchJson(
+  context: DeepCheckContext,
+  path: string,
+  options: { method?: RequestMethod; body?: string } = {},
+): Promise<unknown | null> {
+  const response = await send(context, path, {
+    ...options,
+    accept: "application/json",
+  });
+  const text = await readBody(response, 0);
+  if (response.statusCode !== 200) {
+    context.log.debug(`${path} 返回 HTTP ${response.statusCode}`);
+    return null;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new DeepCheckError(`${path} 返回的不是 JSON`);
+  }
+}
+
+/**
+ * 逐个读取 SSE 事件，onEvent 返回 true 时停止读取（关闭连接）
+ */
+async function readEvents(
+  body: Dispatcher.ResponseData["body"],
+  onEvent: (event: ServerSentEvent) => boolean,
+): Promise<boolean> {
+  let buffer = "";
+  for await (const chunk of body) {
+    buffer += chunk.toString("utf-8");
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = blocks.pop()!;
+
+    for (const block of blocks) {
+      const event: ServerSentEvent = { event: "message", data: "" };
+      const data: string[] = [];
+      for (const line of block.split(/\r?\n/)) {
+        const [, field, value] = line.match(/^(\w+):\s?(.*)$/) ?? [];
+        if (field === "event") event.event = value;
+        if (field === "data") data.push(value);
+      }
+      event.data = data.join("\n");
+      if (onEvent(event)) return true;
+    }
+  }
+  return false;
+}
+
+// ==================== Gradio ====================
+
+/**
+ * 读取 Gradio 的 /config，不是 Gradio 应用时返回 null
+ */
+async function fetchGradioConfig(
+  context: DeepCheckContext,
+): Promise<Record<string, unknown> | null> {
+  const config = await fetchJson(context, "/config").catch((error) => {
+    if (error instanceof DeepCheckError) return null;
+    throw error;
+  });
+  if (
+    config && typeof config === "object" && "version" in config &&
+    ("components" in config || "dependencies" in config)
+  ) {
+    return config as Record<string, unknown>;
+  }
+  return null;
+}
+
+/**
+ * 通过 /call/{api} 调用 Gradio 接口并等待结果
+ * @returns 接口的输出
+ */
+async function callGradioApi(
+  context: DeepCheckContext,
+  prefix: string,
+  api: string,
+): Promise<unknown> {
+  const { config } = context.target;
+  const name = api.replace(/^\//, "");
+  const path = `${prefix}/call/${name}`;
+
+  const queued = await fetchJson(context, path, {
+    method: "POST",
+    body: JSON.stringify({ data: config.deepCheckInput }),
+  });
+  const eventId = (queued as { event_id?: unknown } | null)?.event_id;
+  if (typeof eventId !== "string") {
+    throw new DeepCheckError(`调用 ${path} 失败：未返回 event_id`);
+  }
+
+  const response = await send(context, `${path}/${eventId}`, {
+    accept: "text/event-stream",
+  });
+  if (response.statusCode !== 200) {
+    await response.body.dump();
+    throw new DeepCheckError(`读取 ${path} 的结果失败：HTTP ${response.statusCode}`);
+  }
+
+  let result: ServerSentEvent | null = null;
+  await readEvents(response.body, (event) => {
+    if (event.event !== "complete" && event.event !== "error") return false;
+    result = event;
+    return true;
+  });
+  const finished = result as ServerSentEvent | null;
+  if (!finished) {
+    throw new DeepCheckError(`${path} 的结果流意外结束`);
+  }
+  if (finished.event === "error") {
+    throw new DeepCheckError(
+      `${path} 返回错误：${finished.data === "null" ? "未知错误" : finished.data}`,
+    );
+  }
+
+  try {
+    return JSON.parse(finished.data);
+  } catch {
+    return finished.data;
+  }
+}
+
+/**
+ * 打开一次 Gradio 队列心跳 SSE，收到响应头即关闭
+ * @returns 旧版 Gradio 没有该接口时返回 false
+ */
+async function openGradioHeartbeat(
+  context: DeepCheckContext,
+  prefix: string,
+): Promise<boolean> {
+  const session = randomBytes(6).toString("hex");
+  const response = await send(context, `${prefix}/heartbeat/${session}`, {
+    accept: "text/event-stream",
+  });
+  response.body.destroy();
+
+  if (response.statusCode === 404) return false;
+  if (response.statusCode !== 200) {
+    throw new DeepCheckError(`队列心跳返回 HTTP ${response.statusCode}`);
+  }
+  return true;
+}
+
+/**
+ * 与 Gradio 应用交互
+ */
+async function checkGradio(
+  context: DeepCheckContext,
+  gradioConfig: Record<string, unknown> | null,
+  steps: string[],
+): Promise<string | null> {
+  const { config } = context.target;
+  const appConfig = gradioConfig ?? await fetchGradioConfig(context);
+  if (!appConfig) {
+    throw new DeepCheckError("/config 不是有效的 Gradio 配置");
+  }
+  steps.push("/config");
+
+  // Gradio 5 的接口位于 /gradio_api 下
+  const prefix = typeof appConfig.api_prefix === "string"
+    ? appConfig.api_prefix.replace(/\/$/, "")
+    : "";
+
+  if (config.deepCheckApi) {
+    const output = await callGradioApi(context, prefix, config.deepCheckApi);
+    steps.push(`${prefix}/call/${config.deepCheckApi.replace(/^\//, "")}`);
+    context.log.debug(`接口输出：${JSON.stringify(output).substring(0, 200)}`);
+
+    if (
+      config.deepCheckExpect &&
+      !JSON.stringify(output).includes(config.deepCheckExpect)
+    ) {
+      throw new DeepCheckError(
+        `接口输出不包含 "${config.deepCheckExpect}"`,
+      );
+    }
+  } else if (await openGradioHeartbeat(context, prefix)) {
+    steps.push(`${prefix}/heartbeat`);
+  } else {
+    context.log.debug("该版本的 Gradio 没有队列心跳接口，只读取 /config");
+  }
+
+  return typeof appConfig.version === "string" ? appConfig.version : null;
+}
+
+// ==================== Streamlit ====================
+
+/**
+ * 检查 Streamlit 的健康检查接口（旧版本为 /healthz）
+ * @returns 使用的路径，不是 Streamlit 应用时返回 null
+ */
+async function probeStreamlit(context: DeepCheckContext): Promise<string | null> {
+  for (const path of ["/_stcore/health", "/healthz"]) {
+    const response = await send(context, path, { accept: "text/plain" });
+    const text = await readBody(response, MAX_PROBE_BODY);
+    if (response.statusCode === 200 && text.trim() === "ok") return path;
+  }
+  return null;
+}
+
+/**
+ * 建立一次 Streamlit WebSocket 会话，连接成功后关闭
+ */
+function openStreamlitSession(context: DeepCheckContext): Promise<void> {
+  const { target } = context;
+  const url = new URL(buildUrl(context, "/_stcore/stream"));
+  url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(url, {
+      dispatcher: target.dispatcher,
+      headers: {
+        "Cookie": serializeCookie(target, context.base.toString()),
+        "User-Agent": target.config.request.userAgent,
+        "Origin": context.base.origin,
+      },
+    });
+
+    const timer = setTimeout(
+      () => fail(new DeepCheckError("WebSocket 连接超时")),
+      target.config.deepCheckTimeout,
+    );
+    const onAbort = () => fail(context.signal.reason);
+    context.signal.addEventListener("abort", onAbort, { once: true });
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      context.signal.removeEventListener("abort", onAbort);
+    };
+    function fail(error: unknown): void {
+      cleanup();
+      socket.close();
+      reject(error);
+    }
+
+    socket.addEventListener("open", () => {
+      cleanup();
+      socket.close(1000);
+      resolve();
+    });
+    socket.addEventListener("error", () => {
+      fail(new DeepCheckError("无法建立 /_stcore/stream WebSocket 连接"));
+    });
+  });
+}
+
+/**
+ * 与 Streamlit 应用交互
+ */
+async function checkStreamlit(
+  context: DeepCheckContext,
+  healthPath: string | null,
+  steps: string[],
+): Promise<null> {
+  const path = healthPath ?? await probeStreamlit(context);
+  if (!path) {
+    throw new DeepCheckError("Streamlit 健康检查失败");
+  }
+  steps.push(path);
+
+  await openStreamlitSession(context);
+  steps.push("/_stcore/stream");
+  return null;
+}
+
+// ==================== 入口 ====================
+
+/**
+ * 对应用执行一次深度保活
+ * @param appUrl 应用 URL（iframe URL 或 TARGET_URL）
+ * @throws DeepCheckError 应用有响应但交互失败时抛出；网络错误与超时按原样抛出
+ */
+export async function runDeepCheck(
+  target: Target,
+  appUrl: string,
+  log: Logger,
+  signal?: AbortSignal,
+): Promise<DeepCheckResult> {
+  const startTime = Date.now();
+  const url = new URL(appUrl);
+  const sign = url.searchParams.get("__sign");
+  url.search = "";
+  url.hash = "";
+
+  const context: DeepCheckContext = {
+    target,
+    base: url,
+    sign,
+    log,
+    // 整个深度保活共用一个超时，SSE 结果流不会无限等待
+    signal: AbortSignal.any([
+      AbortSignal.timeout(target.config.deepCheckTimeout),
+      ...(signal ? [signal] : []),
+    ]),
+  };
+
+  const steps: string[] = [];
+  let framework: AppFramework;
+  let version: string | null;
+
+  if (target.config.deepCheck === "streamlit") {
+    framework = "streamlit";
+    version = await checkStreamlit(context, null, steps);
+  } else if (target.config.deepCheck === "gradio") {
+    framework = "gradio";
+    version = await checkGradio(context, null, steps);
+  } else {
+    // auto：先探测 Gradio，再探测 Streamlit
+    const gradioConfig = await fetchGradioConfig(context);
+    if (gradioConfig) {
+      framework = "gradio";
+      version = await checkGradio(context, gradioConfig, steps);
+    } else {
+      const healthPath = await probeStreamlit(context);
+      if (!healthPath) {
+        throw new DeepCheckError(
+          "无法识别应用框架：/config 与 /_stcore/health 均不可用",
+        );
+      }
+      framework = "streamlit";
+      version = await checkStreamlit(context, healthPath, steps);
+    }
+  }
+
+  return { framework, version, steps, durationMs: Date.now() - startTime };
+}
@@ -0,0 +1,188 @@
+/**
+ * 出站连接：代理、CA 证书与连接池
+ *
+ * 每个目标创建一个 undici Dispatcher，Space 页面、保活请求、Hub API 与 HTTP 类通知器共用：
+ * - proxy 支持 http:// / https://（CONNECT 隧道）与 socks5:// / socks5h://；
+ *   未设置时使用 HTTPS_PROXY / HTTP_PROXY 环境变量，设为 direct 时始终直连
+ * - noProxy 与 NO_PROXY 中的主机不走代理
+ * - caFile 中的 CA 证书追加在内置根证书之后，用于验证目标站点与 HTTPS 代理
+ * - maxConnections、keepAliveTimeout 控制每个源站的连接池
+ */
+
+import { lookup } from "dns/promises";
+import { readFileSync } from "fs";
+import { isIP, type Socket } from "net";
+import { SocksClient } from "socks";
+import { type ConnectionOptions, rootCertificates } from "tls";
+import {
+  Agent,
+  buildConnector,
+  type Dispatcher,
+  EnvHttpProxyAgent,
+} from "undici";
+import type { TargetConfig } from "./config.js";
+
+// 支持的代理协议
+export const PROXY_PROTOCOLS = ["http:", "https:", "socks5:", "socks5h:"];
+
+// 连接 SOCKS 代理并完成握手的超时时间（毫秒），与 undici 默认的连接超时一致
+const SOCKS_CONNECT_TIMEOUT = 10000;
+
+/**
+ * 读取代理相关的环境变量，小写形式优先（与 curl 一致）
+ */
+function getProxyEnv(name: string): string | undefined {
+  return process.env[name.toLowerCase()] || process.env[name] || undefined;
+}
+
+/**
+ * 目标实际使用的代理：配置中的 proxy 优先，其次是 HTTPS_PROXY / HTTP_PROXY
+ * @returns 直连时返回 null
+ */
+export function resolveProxy(config: TargetConfig): string | null {
+  if (config.proxy === "direct") return null;
+  return config.proxy || getProxyEnv("HTTPS_PROXY") ||
+    getProxyEnv("HTTP_PROXY") || null;
+}
+
+/**
+ * 隐藏代理地址中的密码，用于日志与配置展示
+ */
+export function formatProxy(proxy: string): string {
+  try {
+    const url = new URL(proxy);
+    if (url.password) url.password = "***";
+    return url.toString().replace(/\/$/, "");
+  } catch {
+    return proxy;
+  }
+}
+
+/**
+ * 不走代理的主机：配置中的 noProxy 加上 NO_PROXY 环境变量
+ */
+function getNoProxyEntries(config: TargetConfig): string[] {
+  const fromEnv = getProxyEnv("NO_PROXY")?.split(/[\s,]+/) ?? [];
+  return [...config.noProxy, ...fromEnv].filter(Boolean);
+}
+
+/**
+ * 主机是否不走代理，规则同 NO_PROXY：
+ * * 匹配全部；example.com 与 .example.com 匹配该域名及其子域名；可用 :端口 限定端口
+ */
+function isNoProxy(hostname: string, port: number, entries: string[]): boolean {
+  const host = hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  return entries.some((entry) => {
+    if (entry === "*") return true;
+    const [, domain, entryPort] = entry.match(/^(.*?)(?::(\d+))?$/)!;
+    if (entryPort && Number(entryPort) !== port) return false;
+    const suffix = domain.replace(/^\*?\./, "").toLowerCase();
+    return host === suffix || host.endsWith(`.${suffix}`);
+  });
+}
+
+/**
+ * 通过 SOCKS5 代理建立到目标主机的 TCP 连接
+ * socks5:// 在本地解析域名，socks5h:// 交给代理解析
+ */
+async function connectSocks(
+  proxyUrl: URL,
+  hostname: string,
+  port: number,
+): Promise<Socket> {
+  const host = hostname.replace(/^\[|\]$/g, "");
+  const destination = proxyUrl.protocol === "socks5:" && !isIP(host)
+    ? (await lookup(host)).address
+    : host;
+
+  const { socket } = await SocksClient.createConnection({
+    proxy: {
+      host: proxyUrl.hostname.replace(/^\[|\]$/g, ""),
+      port: Number(proxyUrl.port) || 1080,
+      type: 5,
+      userId: decodeURIComponent(proxyUrl.username) || undefined,
+      password: decodeURIComponent(proxyUrl.password) || undefined,
+    },
+    command: "connect",
+    destination: { host: destination, port },
+    timeout: SOCKS_CONNECT_TIMEOUT,
+  });
+  return socket;
+}
+
+/**
+ * 创建经由 SOCKS5 代理的连接器，HTTPS 目标在隧道内再做 TLS 握手
+ */
+function createSocksConnector(
+  proxyUrl: URL,
+  tls: ConnectionOptions,
+  noProxy: string[],
+): buildConnector.connector {
+  const connect = buildConnector(tls);
+
+  return (options, callback) => {
+    const port = Number(options.port) ||
+      (options.protocol === "https:" ? 443 : 80);
+    if (isNoProxy(options.hostname, port, noProxy)) {
+      connect(options, callback);
+      return;
+    }
+
+    connectSocks(proxyUrl, options.hostname, port).then(
+      (socket) => {
+        if (options.protocol === "https:") {
+          connect({ ...options, httpSocket: socket }, callback);
+        } else {
+          callback(null, socket);
+        }
+      },
+      (error) => callback(error, null),
+    );
+  };
+}
+
+/**
+ * 读取 caFile，与内置根证书一起作为 TLS 选项
+ */
+function loadTlsOptions(config: TargetConfig): ConnectionOptions {
+  if (!config.caFile) return {};
+  return { ca: [...rootCertificates, readFileSync(config.caFile, "utf-8")] };
+}
+
+/**
+ * 根据目标配置创建 Dispatcher
+ * @throws 读取 caFile 失败或代理地址无效时抛出
+ */
+export function createDispatcher(config: TargetConfig): Dispatcher {
+  const tls = loadTlsOptions(config);
+  const pool = {
+    // 0 表示不限制
+    connections: config.maxConnections > 0 ? config.maxConnections : null,
+    keepAliveTimeout: config.keepAliveTimeout,
+  };
+
+  const proxy = resolveProxy(config);
+  if (!proxy) {
+    return new Agent({ ...pool, connect: tls });
+  }
+
+  const proxyUrl = new URL(proxy);
+  const noProxy = getNoProxyEntries(config);
+  if (proxyUrl.protocol.startsWith("socks")) {
+    return new Agent({
+      ...pool,
+      connect: createSocksConnector(proxyUrl, tls, noProxy),
+    });
+  }
+
+  // 配置了 proxy 时 HTTP 与 HTTPS 目标都使用它，否则由 undici 按协议读取环境变量
+  return new EnvHttpProxyAgent({
+    ...pool,
+    connect: tls,
+    requestTls: tls,
+    proxyTls: tls,
+    httpProxy: config.proxy || undefined,
+    httpsProxy: config.proxy || undefined,
+    noProxy: noProxy.join(","),
+  });
+}
@@ -0,0 +1,427 @@
+/**
+ * 运行历史与可用率统计
+ *
+ * 配置 historyFile 后，每次尝试和每轮保活的结果都会追加到 JSONL 文件（每行一条记录）：
+ * - attempt：一次尝试，包含阶段、状态码、耗时、结果与错误类型
+ * - cycle：一轮保活的最终结果（up / degraded / down），用于计算可用率
+ * - wakeUp：一次唤醒休眠 Space 的结果与耗时
+ *
+ * 超过 historyRetention 的记录会定期清理。文件可能很大，清理与统计都逐行流式读取，
+ * 不会阻塞事件循环；清理期间新增的记录先暂存在内存中，清理完成后再写入。
+ * 统计可通过 stats 命令或状态服务的 /stats 接口查看。
+ */
+
+import { once } from "events";
+import {
+  appendFileSync,
+  createReadStream,
+  createWriteStream,
+  existsSync,
+  mkdirSync,
+} from "fs";
+import { rename, unlink } from "fs/promises";
+import { dirname, resolve } from "path";
+import { createInterface } from "readline";
+import { finished } from "stream/promises";
+import type { HistoryConfig } from "./config.js";
+import { logger } from "./logger.js";
+import type { KeepAliveResult, Target } from "./target.js";
+
+/**
+ * 一次尝试的记录
+ */
+export interface AttemptRecord {
+  kind: "attempt";
+  time: string;
+  target: string;
+  attempt: number;
+  phase: "space-page" | "target" | "deep-check";
+  statusCode: number | null;
+  durationMs: number | null;
+  // success、degraded 或失败原因（同指标中的 reason）
+  outcome: string;
+  // 请求异常的错误码或类名，如 ECONNREFUSED、HeadersTimeoutError
+  errorClass: string | null;
+}
+
+/**
+ * 一轮保活的记录
+ */
+export interface CycleRecord {
+  kind: "cycle";
+  time: string;
+  target: string;
+  result: KeepAliveResult;
+  // 从本轮开始到得出结果的耗时（含重试等待）
+  durationMs: number;
+}
+
+/**
+ * 一次唤醒的记录
+ */
+export interface WakeUpRecord {
+  kind: "wakeUp";
+  time: string;
+  target: string;
+  // 唤醒方式：hub 或 page
+  method: string;
+  // awake：在期限内恢复响应；failed：超时或进入出错状态
+  outcome: "awake" | "failed";
+  // 从发起唤醒到得出结果的耗时
+  durationMs: number;
+}
+
+export type HistoryRecord = AttemptRecord | CycleRecord | WakeUpRecord;
+
+/**
+ * 单个目标在统计窗口内的汇总
+ */
+export interface TargetStats {
+  target: string;
+  cycles: number;
+  up: number;
+  degraded: number;
+  down: number;
+  // 可用率（%），degraded 不计入；没有记录时为 null
+  uptimePercent: number | null;
+  attempts: number;
+  failedAttempts: number;
+  // 成功请求的响应时间（毫秒）
+  latency: { p50: number | null; p95: number | null };
+  // 失败尝试按结果与错误类型分类计数
+  failures: Record<string, number>;
+  errorClasses: Record<string, number>;
+  // 唤醒次数、成功次数与成功唤醒耗时的中位数（毫秒）
+  wakeUps: { total: number; awake: number; p50: number | null };
+}
+
+// 清理过期记录的最小间隔
+const PRUNE_INTERVAL = 60 * 60 * 1000;
+
+let historyPath: string | null = null;
+let retention = 0;
+let lastPrunedAt = 0;
+// 正在清理的文件，以及清理期间暂存的记录
+let pruningPath: string | null = null;
+let pruning: Promise<void> | null = null;
+let pendingLines: string[] = [];
+
+// ==================== 写入 ====================
+
+/**
+ * 设置历史文件与保留时长，并立即清理一次过期记录
+ * @returns 本次清理完成时 resolve（清理失败只记录警告，不会 reject）
+ */
+export function configureHistory(config: HistoryConfig): Promise<void> {
+  historyPath = config.file ? resolve(config.file) : null;
+  retention = config.retention;
+  lastPrunedAt = 0;
+  return historyPath ? pruneHistory(Date.now()) : Promise.resolve();
+}
+
+/**
+ * 逐行读取文件，跳过空行
+ */
+async function* readLines(path: string): AsyncGenerator<string> {
+  const lines = createInterface({
+    input: createReadStream(path, "utf-8"),
+    crlfDelay: Infinity,
+  });
+  for await (const line of lines) {
+    if (line) yield line;
+  }
+}
+
+/**
+ * 将未过期的记录写入临时文件，有记录被删除时替换原文件
+ * @returns 删除的记录数
+ */
+async function rewriteHistory(path: string, cutoff: number): Promise<number> {
+  if (!existsSync(path)) return 0;
+
+  const tempPath = `${path}.${process.pid}.tmp`;
+  const output = createWriteStream(tempPath, "utf-8");
+  let removed = 0;
+  try {
+    for await (const line of readLines(path)) {
+      const record = parseRecord(line);
+      if (record !== null && Date.parse(record.time) >= cutoff) {
+        if (!output.write(`${line}\n`)) {
+          await once(output, "drain");
+        }
+      } else {
+        removed++;
+      }
+    }
+    output.end();
+    await finished(output);
+  } catch (error) {
+    output.destroy();
+    await unlink(tempPath).catch(() => {});
+    throw error;
+  }
+
+  if (removed > 0) {
+    await rename(tempPath, path);
+  } else {
+    await unlink(tempPath);
+  }
+  return removed;
+}
+
+/**
+ * 删除超过保留时长的记录（先写临时文件再重命名）
+ * 同一时间只进行一次清理
+ */
+function pruneHistory(now: number): Promise<void> {
+  if (!historyPath) return Promise.resolve();
+  if (pruning) return pruning;
+  lastPrunedAt = now;
+
+  const path = historyPath;
+  pruningPath = path;
+  pruning = rewriteHistory(path, now - retention)
+    .then((removed) => {
+      if (removed > 0) {
+        logger.info(`🧹 已清理 ${removed} 条过期的运行记录`);
+      }
+    })
+    .catch((error: unknown) => {
+      logger.warn(`⚠️ 清理运行记录失败：${error}`);
+    })
+    .finally(() => {
+      const lines = pendingLines;
+      pruningPath = null;
+      pruning = null;
+      pendingLines = [];
+      if (lines.length > 0) writeLines(path, lines.join(""));
+    });
+  return pruning;
+}
+
+/**
+ * 追加写入文件，写入失败只记录警告，不影响保活
+ */
+function writeLines(path: string, text: string): void {
+  try {
+    mkdirSync(dirname(path), { recursive: true });
+    appendFileSync(path, text, "utf-8");
+  } catch (error) {
+    logger.warn(`⚠️ 写入运行记录失败：${path} (${error})`);
+  }
+}
+
+/**
+ * 追加一条记录；正在清理同一文件时先暂存，清理完成后写入
+ */
+function appendRecord(record: HistoryRecord): void {
+  if (!historyPath) return;
+
+  const now = Date.now();
+  if (now - lastPrunedAt >= PRUNE_INTERVAL) void pruneHistory(now);
+
+  const line = `${JSON.stringify(record)}\n`;
+  if (pruningPath === historyPath) {
+    pendingLines.push(line);
+    return;
+  }
+  writeLines(historyPath, line);
+}
+
+/**
+ * 记录一次尝试，未提供的状态码、耗时与错误类型记为 null
+ */
+export function recordAttempt(
+  target: Target,
+  fields:
+    & Pick<AttemptRecord, "attempt" | "phase" | "outcome">
+    & Partial<Pick<AttemptRecord, "statusCode" | "durationMs" | "errorClass">>,
+): void {
+  appendRecord({
+    kind: "attempt",
+    time: new Date().toISOString(),
+    target: target.config.name,
+    attempt: fields.attempt,
+    phase: fields.phase,
+    statusCode: fields.statusCode ?? null,
+    durationMs: fields.durationMs ?? null,
+    outcome: fields.outcome,
+    errorClass: fields.errorClass ?? null,
+  });
+}
+
+/**
+ * 记录一次唤醒的结果
+ */
+export function recordWakeUp(
+  target: Target,
+  fields: Omit<WakeUpRecord, "kind" | "time" | "target">,
+): void {
+  appendRecord({
+    kind: "wakeUp",
+    time: new Date().toISOString(),
+    target: target.config.name,
+    ...fields,
+  });
+}
+
+/**
+ * 记录一轮保活的最终结果
+ */
+export function recordCycle(
+  target: Target,
+  fields: Omit<CycleRecord, "kind" | "time" | "target">,
+): void {
+  appendRecord({
+    kind: "cycle",
+    time: new Date().toISOString(),
+    target: target.config.name,
+    ...fields,
+  });
+}
+
+// ==================== 统计 ====================
+
+/**
+ * 解析一行记录，格式无效时返回 null
+ */
+function parseRecord(line: string): HistoryRecord | null {
+  try {
+    const record = JSON.parse(line);
+    if (
+      record &&
+      (record.kind === "attempt" || record.kind === "cycle" ||
+        record.kind === "wakeUp") &&
+      typeof record.target === "string" &&
+      !Number.isNaN(Date.parse(record.time))
+    ) {
+      return record;
+    }
+  } catch {
+    // 忽略写入中断留下的半行
+  }
+  return null;
+}
+
+/**
+ * 统计当前历史文件最近一段时间的记录，供状态服务使用
+ * @returns 未配置历史文件时返回 null
+ */
+export async function getHistoryStats(
+  window: number,
+  names: string[] = [],
+): Promise<TargetStats[] | null> {
+  if (!historyPath) return null;
+  const records = await readHistory(historyPath, Date.now() - window);
+  return summarizeHistory(records, names);
+}
+
+/**
+ * 逐行读取历史文件中指定时间之后的记录
+ */
+export async function readHistory(
+  path: string,
+  since: number,
+): Promise<HistoryRecord[]> {
+  const resolvedPath = resolve(path);
+  if (!existsSync(resolvedPath)) return [];
+
+  const records: HistoryRecord[] = [];
+  for await (const line of readLines(resolvedPath)) {
+    const record = parseRecord(line);
+    if (record !== null && Date.parse(record.time) >= since) {
+      records.push(record);
+    }
+  }
+  return records;
+}
+
+/**
+ * 计算百分位数（最近秩法）
+ */
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.max(0, rank - 1)];
+}
+
+/**
+ * 计数加一
+ */
+function increment(counts: Record<string, number>, key: string): void {
+  counts[key] = (counts[key] ?? 0) + 1;
+}
+
+/**
+ * 按目标汇总记录
+ * @param names 只统计这些目标，为空表示全部
+ */
+export function summarizeHistory(
+  records: HistoryRecord[],
+  names: string[] = [],
+): TargetStats[] {
+  const byTarget = new Map<string, HistoryRecord[]>();
+  for (const record of records) {
+    if (names.length > 0 && !names.includes(record.target)) continue;
+    const list = byTarget.get(record.target) ?? [];
+    list.push(record);
+    byTarget.set(record.target, list);
+  }
+
+  return [...byTarget.entries()].map(([target, list]): TargetStats => {
+    const stats: TargetStats = {
+      target,
+      cycles: 0,
+      up: 0,
+      degraded: 0,
+      down: 0,
+      uptimePercent: null,
+      attempts: 0,
+      failedAttempts: 0,
+      latency: { p50: null, p95: null },
+      failures: {},
+      errorClasses: {},
+      wakeUps: { total: 0, awake: 0, p50: null },
+    };
+    const latencies: number[] = [];
+    const wakeUpDurations: number[] = [];
+
+    for (const record of list) {
+      if (record.kind === "cycle") {
+        stats.cycles++;
+        stats[record.result]++;
+        continue;
+      }
+      if (record.kind === "wakeUp") {
+        stats.wakeUps.total++;
+        if (record.outcome === "awake") {
+          stats.wakeUps.awake++;
+          wakeUpDurations.push(record.durationMs);
+        }
+        continue;
+      }
+
+      stats.attempts++;
+      if (record.outcome === "success") {
+        if (record.durationMs !== null) latencies.push(record.durationMs);
+      } else if (record.outcome !== "degraded") {
+        stats.failedAttempts++;
+        increment(stats.failures, record.outcome);
+        if (record.errorClass) increment(stats.errorClasses, record.errorClass);
+      }
+    }
+
+    const counted = stats.up + stats.down;
+    if (counted > 0) {
+      stats.uptimePercent = Math.round((stats.up / counted) * 10000) / 100;
+    }
+    latencies.sort((a, b) => a - b);
+    stats.latency = {
+      p50: percentile(latencies, 50),
+      p95: percentile(latencies, 95),
+    };
+    wakeUpDurations.sort((a, b) => a - b);
+    stats.wakeUps.p50 = percentile(wakeUpDurations, 50);
+    return stats;
+  });
+}
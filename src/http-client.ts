@@ -0,0 +1,149 @@
+/**
+ * 带重定向跟随的 HTTP 请求
+ *
+ * undici 的 request() 不会自动跟随重定向。这里手动逐跳跟随，
+ * 每一跳都按当前 URL 发送 Cookie，并记录服务器返回的 Set-Cookie，
+ * 同时保留完整的跳转链，便于区分"被重定向到登录页"和真正的服务故障。
+ * POST 请求遇到 301 / 302 / 303 时按浏览器的行为改为不带请求体的 GET，307 / 308 保持原样。
+ */
+
+import { type Dispatcher, request } from "undici";
+import { handleSetCookieHeader, serializeCookie } from "./cookies.js";
+import type { RequestMethod } from "./profiles.js";
+import type { Target } from "./target.js";
+
+/**
+ * 一次重定向
+ */
+export interface RedirectHop {
+  url: string;
+  statusCode: number;
+  location: string;
+}
+
+export interface FollowedResponse {
+  response: Dispatcher.ResponseData;
+  finalUrl: string;
+  hops: RedirectHop[];
+}
+
+export interface FollowRequestOptions {
+  // 默认 GET
+  method?: RequestMethod;
+  body?: string | null;
+  headers: Record<string, string>;
+  headersTimeout: number;
+  bodyTimeout: number;
+  // 中止时取消请求（抛出 AbortError）
+  signal?: AbortSignal;
+}
+
+const REDIRECT_STATUS_CODES = new Set([301, 302, 303, 307, 308]);
+
+/**
+ * 发送请求并跟随重定向，最多跟随 target.config.maxRedirects 次
+ * 超过次数限制时返回最后一个重定向响应本身
+ */
+export async function requestWithRedirects(
+  target: Target,
+  url: string,
+  options: FollowRequestOptions,
+): Promise<FollowedResponse> {
+  const { maxRedirects } = target.config;
+  const hops: RedirectHop[] = [];
+  let currentUrl = url;
+  let headers = options.headers;
+  let method = options.method ?? "GET";
+  let body = options.body ?? null;
+
+  while (true) {
+    const response = await request(currentUrl, {
+      method,
+      body,
+      dispatcher: target.dispatcher,
+      headers: {
+        ...headers,
+        "Cookie": serializeCookie(target, currentUrl),
+      },
+      headersTimeout: options.headersTimeout,
+      bodyTimeout: options.bodyTimeout,
+      signal: options.signal,
+    });
+
+    // 每一跳都处理服务器返回的Cookie更新
+    handleSetCookieHeader(target, currentUrl, response.headers["set-cookie"]);
+
+    const location = response.headers["location"];
+    const locationValue = Array.isArray(location) ? location[0] : location;
+
+    if (
+      !REDIRECT_STATUS_CODES.has(response.statusCode) || !locationValue ||
+      hops.length >= maxRedirects
+    ) {
+      return { response, finalUrl: currentUrl, hops };
+    }
+
+    const nextUrl = new URL(locationValue, currentUrl).toString();
+    hops.push({
+      url: currentUrl,
+      statusCode: response.statusCode,
+      location: nextUrl,
+    });
+
+    // 跳转到其他站点时不再携带 Authorization，避免泄露访问令牌
+    if (new URL(nextUrl).origin !== new URL(currentUrl).origin) {
+      headers = Object.fromEntries(
+        Object.entries(headers).filter(([key]) =>
+          key.toLowerCase() !== "authorization"
+        ),
+      );
+    }
+
+    if (
+      method === "POST" &&
+      (response.statusCode === 303 || response.statusCode <= 302)
+    ) {
+      method = "GET";
+      body = null;
+      headers = Object.fromEntries(
+        Object.entries(headers).filter(([key]) =>
+          key.toLowerCase() !== "content-type"
+        ),
+      );
+    }
+
+    // 丢弃重定向响应体，释放连接
+    await response.body.dump();
+    currentUrl = nextUrl;
+  }
+}
+
+/**
+ * 读取响应体，超过 maxBytes 字节时截断并丢弃剩余部分（连接随之关闭）
+ * @param maxBytes 0 表示不限制
+ */
+export async function readBody(
+  response: Dispatcher.ResponseData,
+  maxBytes: number,
+): Promise<string> {
+  if (maxBytes <= 0) return response.body.text();
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  // 提前退出循环会销毁响应流
+  for await (const chunk of response.body) {
+    chunks.push(chunk);
+    size += chunk.length;
+    if (size >= maxBytes) break;
+  }
+  return Buffer.concat(chunks).subarray(0, maxBytes).toString("utf-8");
+}
+
+/**
+ * 将跳转链格式化为一行，例如 https://a (302) → https://b (301) → https://c
+ */
+export function formatRedirectChain(hops: RedirectHop[], finalUrl: string): string {
+  if (hops.length === 0) return finalUrl;
+  return [...hops.map((hop) => `${hop.url} (${hop.statusCode})`), finalUrl]
+    .join(" → ");
+}
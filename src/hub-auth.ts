@@ -0,0 +1,225 @@
+/**
+ * HF 访问令牌认证
+ *
+ * 配置 hfToken（hf_...）后，不再需要从浏览器复制 Cookie：
+ * 工具定期通过 Hub API 获取 Space 的 JWT 与域名，拼出带 __sign 的 iframe URL，
+ * 并将 JWT 作为 spaces-jwt Cookie 写入目标的 Cookie Jar。
+ *
+ * 使用的 Hub 接口（hubEndpoint 可改为本地模拟服务）：
+ * - GET {hubEndpoint}/api/spaces/{owner}/{name}/jwt → { token }
+ * - GET {hubEndpoint}/api/spaces/{owner}/{name}     → { host, subdomain, ... }（公开 Space 无需令牌，也用于发现应用地址）
+ * - POST {hubEndpoint}/api/spaces/{owner}/{name}/restart：唤醒休眠的 Space（需要写权限）
+ */
+
+import { request } from "undici";
+import { createHostCookie, putCookie } from "./cookie-jar.js";
+import { persistCookies } from "./cookie-persistence.js";
+import type { Target } from "./target.js";
+
+/**
+ * 从 Hub 获取的 Space 访问凭据
+ */
+export interface HubCredentials {
+  jwt: string;
+  // JWT 的过期时间（毫秒时间戳），无法解析时为 null
+  expiresAt: number | null;
+  // 带 __sign 的 iframe URL
+  signedUrl: string;
+  fetchedAt: number;
+}
+
+// JWT 过期前多久提前刷新
+const EXPIRY_MARGIN = 5 * 60 * 1000;
+
+/**
+ * 从 Space 页面 URL 中解析 owner/name
+ * @returns 无法识别时返回 null
+ */
+export function parseSpaceId(spaceUrl: string): string | null {
+  try {
+    const match = new URL(spaceUrl).pathname.match(
+      /^\/spaces\/([^/]+\/[^/]+)/,
+    );
+    return match ? match[1] : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 读取 JWT 的 exp 声明（不校验签名）
+ * @returns 过期时间（毫秒时间戳），无法解析时返回 null
+ */
+export function getJwtExpiry(jwt: string): number | null {
+  try {
+    const payload = JSON.parse(
+      Buffer.from(jwt.split(".")[1], "base64url").toString("utf-8"),
+    );
+    return typeof payload.exp === "number" ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 调用 Hub API 并解析 JSON 响应，配置了 hfToken 时附带令牌
+ */
+async function fetchHubJson(
+  target: Target,
+  path: string,
+  signal?: AbortSignal,
+): Promise<Record<string, unknown>> {
+  const { hubEndpoint, hfToken, request: profile } = target.config;
+  const url = new URL(path, hubEndpoint).toString();
+  const response = await request(url, {
+    method: "GET",
+    dispatcher: target.dispatcher,
+    headers: {
+      "Accept": "application/json",
+      ...(hfToken ? { "Authorization": `Bearer ${hfToken}` } : {}),
+    },
+    headersTimeout: profile.headersTimeout,
+    bodyTimeout: profile.bodyTimeout,
+    signal,
+  });
+  const body = await response.body.text();
+
+  if (response.statusCode !== 200) {
+    throw new Error(`${path} 返回 HTTP ${response.statusCode}`);
+  }
+  return JSON.parse(body);
+}
+
+/**
+ * 从 Space 信息中读取应用的域名，缺少 host 时由 subdomain 拼出
+ */
+function getSpaceHost(spaceInfo: Record<string, unknown>): string | null {
+  return typeof spaceInfo.host === "string"
+    ? spaceInfo.host
+    : typeof spaceInfo.subdomain === "string"
+    ? `https://${spaceInfo.subdomain}.hf.space`
+    : null;
+}
+
+/**
+ * 通过 Hub API 查询 Space 应用的域名
+ * @returns 如 https://owner-name.hf.space；无法解析 Space 名称或响应中缺少 host 时返回 null
+ * @throws 请求失败时抛出
+ */
+export async function fetchSpaceHost(
+  target: Target,
+  signal?: AbortSignal,
+): Promise<string | null> {
+  const spaceId = parseSpaceId(target.config.spaceUrl);
+  if (!spaceId) return null;
+  return getSpaceHost(await fetchHubJson(target, `/api/spaces/${spaceId}`, signal));
+}
+
+/**
+ * 通过 Hub API 重启（唤醒）Space
+ * @throws 未配置 hfToken、无法解析 Space 名称或请求失败时抛出
+ */
+export async function restartSpace(
+  target: Target,
+  signal?: AbortSignal,
+): Promise<void> {
+  const { hfToken, spaceUrl, hubEndpoint, request: profile } = target.config;
+  const spaceId = parseSpaceId(spaceUrl);
+  if (!hfToken || !spaceId) {
+    throw new Error("通过 Hub API 唤醒需要 HF_TOKEN 与有效的 SPACE_URL");
+  }
+
+  const path = `/api/spaces/${spaceId}/restart`;
+  const response = await request(new URL(path, hubEndpoint).toString(), {
+    method: "POST",
+    dispatcher: target.dispatcher,
+    headers: {
+      "Accept": "application/json",
+      "Authorization": `Bearer ${hfToken}`,
+    },
+    headersTimeout: profile.headersTimeout,
+    bodyTimeout: profile.bodyTimeout,
+    signal,
+  });
+  await response.body.dump();
+
+  if (response.statusCode !== 200) {
+    throw new Error(`${path} 返回 HTTP ${response.statusCode}`);
+  }
+}
+
+/**
+ * 判断凭据是否需要刷新：尚未获取、超过刷新间隔，或 JWT 即将过期
+ */
+function isRefreshDue(target: Target, now: number): boolean {
+  const credentials = target.hubCredentials;
+  if (!credentials) return true;
+  if (now - credentials.fetchedAt >= target.config.hubRefreshInterval) {
+    return true;
+  }
+  return credentials.expiresAt !== null &&
+    credentials.expiresAt - now <= EXPIRY_MARGIN;
+}
+
+/**
+ * 按需通过 Hub API 刷新 Space 凭据，并写入 Cookie Jar
+ * 未配置 hfToken 时不做任何事；刷新失败时保留上一次的凭据
+ */
+export async function refreshHubCredentials(
+  target: Target,
+  signal?: AbortSignal,
+): Promise<void> {
+  const { hfToken, spaceUrl } = target.config;
+  const now = Date.now();
+  if (!hfToken || !isRefreshDue(target, now)) return;
+
+  const spaceId = parseSpaceId(spaceUrl);
+  if (!spaceId) {
+    target.log.warn("⚠️ 无法从 SPACE_URL 解析 Space 名称，跳过 JWT 刷新");
+    return;
+  }
+
+  try {
+    target.log.info("🔑 正在通过 Hub API 获取 Space JWT");
+
+    const [jwtInfo, spaceInfo] = await Promise.all([
+      fetchHubJson(target, `/api/spaces/${spaceId}/jwt`, signal),
+      fetchHubJson(target, `/api/spaces/${spaceId}`, signal),
+    ]);
+
+    const jwt = jwtInfo.token;
+    if (typeof jwt !== "string" || !jwt) {
+      throw new Error("JWT 响应中缺少 token 字段");
+    }
+
+    const host = getSpaceHost(spaceInfo);
+    if (!host) {
+      throw new Error("Space 信息中缺少 host 字段");
+    }
+
+    const signedUrl = new URL(host);
+    signedUrl.searchParams.set("__sign", jwt);
+    const expiresAt = getJwtExpiry(jwt);
+
+    target.hubCredentials = {
+      jwt,
+      expiresAt,
+      signedUrl: signedUrl.toString(),
+      fetchedAt: now,
+    };
+
+    // 与浏览器访问带 __sign 的 URL 后得到的 Cookie 一致
+    const stored = createHostCookie(host, "spaces-jwt", jwt, now);
+    stored.expires = expiresAt;
+    putCookie(target.cookieStorage, stored);
+    persistCookies(target);
+
+    target.log.info(
+      `✅ Space JWT 已刷新${expiresAt ? `，过期时间：${new Date(expiresAt).toISOString()}` : ""}`,
+    );
+  } catch (error) {
+    target.log.error(
+      `❌ 获取 Space JWT 失败：${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
@@ -0,0 +1,376 @@
+/**
+ * iframe URL（Space 应用的真实地址）发现与缓存
+ *
+ * 依次尝试以下方式，HF 调整页面结构时仍能找到应用地址：
+ * 1. Space 页面中 class 为 space-iframe 的 iframe，或指向本 Space 应用域名的 iframe
+ * 2. 页面组件 data-props 与内嵌 JSON 中本 Space 应用域名的地址
+ *   （页面中可能引用其他 Space，如 README 中的示例与推荐列表，域名按命名约定与 Space 名称核对）
+ * 3. Hub API：配置了 hfToken 时使用带 __sign 的签名 URL，否则在 TARGET_URL 之后查询 Space 的 host
+ * 4. TARGET_URL
+ * 5. 按 https://{owner}-{name}.hf.space 的命名约定推测
+ *
+ * 开启 cacheIframeUrl 时，解析出的地址会缓存到 __sign 过期或保活失败为止，
+ * 期间不再请求 huggingface.co 上的 Space 页面。
+ */
+
+import * as cheerio from "cheerio";
+import {
+  formatRedirectChain,
+  readBody,
+  requestWithRedirects,
+} from "./http-client.js";
+import { fetchSpaceHost, getJwtExpiry, parseSpaceId } from "./hub-auth.js";
+import { spacePageDuration } from "./metrics.js";
+import {
+  detectSpaceStateFromHtml,
+  fetchSpaceRuntimeState,
+  SpaceState,
+} from "./space-state.js";
+import { type Logger, logger } from "./logger.js";
+import type { Target } from "./target.js";
+
+/**
+ * 应用地址的来源
+ * - iframe：Space 页面中的 iframe
+ * - props：页面组件 data-props 或内嵌 JSON
+ * - hub：Hub API（签名 URL 或 Space 的 host）
+ * - targetUrl：配置的 TARGET_URL
+ * - convention：按命名约定推测
+ */
+export type IframeSource = "iframe" | "props" | "hub" | "targetUrl" | "convention";
+
+/**
+ * 发现的应用地址
+ */
+export interface DiscoveredUrl {
+  url: string;
+  source: IframeSource;
+}
+
+/**
+ * 缓存的应用地址
+ */
+export interface IframeCache extends DiscoveredUrl {
+  // __sign 的过期时间（毫秒时间戳），不带 __sign 时为 null，只在保活失败时丢弃
+  expiresAt: number | null;
+  cachedAt: number;
+}
+
+// __sign 过期前多久不再使用缓存
+const SIGN_EXPIRY_MARGIN = 60 * 1000;
+
+// 指向 Space 应用域名的地址
+const SPACE_APP_URL = /^https:\/\/[\w-]+\.hf\.space(?:[/?#]|$)/i;
+
+/**
+ * 判断地址是否指向指定的 Space 应用域名
+ * @param appHost 本 Space 应用的域名，如 owner-name.hf.space
+ */
+function isOwnAppUrl(url: string, appHost: string): boolean {
+  if (!SPACE_APP_URL.test(url)) return false;
+  try {
+    return new URL(url).hostname.toLowerCase() === appHost;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 在任意 JSON 结构中收集指向本 Space 应用域名的地址
+ */
+function collectAppUrls(value: unknown, appHost: string, urls: string[]): void {
+  if (typeof value === "string") {
+    if (isOwnAppUrl(value, appHost)) urls.push(value);
+    return;
+  }
+  if (!value || typeof value !== "object") return;
+  for (const child of Object.values(value)) {
+    collectAppUrls(child, appHost, urls);
+  }
+}
+
+/**
+ * 从页面组件的 data-props 与内嵌 JSON 中查找本 Space 的应用地址，优先选择带 __sign 的
+ */
+function findAppUrlInProps(
+  $: cheerio.CheerioAPI,
+  appHost: string,
+): string | null {
+  const urls: string[] = [];
+  const sources = [
+    ...$("[data-props]").toArray().map((element) => $(element).attr("data-props")),
+    ...$('script[type="application/json"]').toArray().map((element) =>
+      $(element).text()
+    ),
+  ];
+  for (const text of sources) {
+    try {
+      collectAppUrls(JSON.parse(text || ""), appHost, urls);
+    } catch {
+      // 不是 JSON，忽略
+    }
+  }
+  return urls.find((url) => url.includes("__sign=")) ?? urls[0] ?? null;
+}
+
+/**
+ * 从 Space 页面 HTML 中提取应用地址：先找 iframe，再找 data-props 与内嵌 JSON
+ * @param html Space 页面的 HTML 内容
+ * @param spaceUrl Space 页面 URL，用于核对应用域名
+ * @returns 应用地址及其来源，如果未找到则返回 null
+ */
+export function extractIframeUrl(
+  html: string,
+  spaceUrl: string,
+  log: Logger = logger,
+): DiscoveredUrl | null {
+  try {
+    const $ = cheerio.load(html);
+    // 无法从 Space 页面 URL 得到应用域名时，只信任 space-iframe
+    const conventionalUrl = getConventionalAppUrl(spaceUrl);
+    const appHost = conventionalUrl ? new URL(conventionalUrl).hostname : null;
+
+    const src = $("iframe.space-iframe").attr("src") ||
+      (appHost
+        ? $('iframe[src*=".hf.space"]').toArray()
+          .map((element) => $(element).attr("src") ?? "")
+          .find((url) => isOwnAppUrl(url, appHost))
+        : undefined);
+    if (src) {
+      log.info(`✅ 成功提取 iframe URL：${src}`);
+      return { url: src, source: "iframe" };
+    }
+
+    const propsUrl = appHost ? findAppUrlInProps($, appHost) : null;
+    if (propsUrl) {
+      log.info(`✅ 从页面数据中提取到应用 URL：${propsUrl}`);
+      return { url: propsUrl, source: "props" };
+    }
+
+    log.warn("⚠️ Space 页面中未找到 iframe 或应用地址");
+    return null;
+  } catch (error) {
+    log.error(`❌ 解析 HTML 失败：${error}`);
+    return null;
+  }
+}
+
+/**
+ * 按命名约定推测 Space 应用的地址：owner 与 name 中的 /、_、. 替换为 -，并转为小写
+ * @returns 无法从 Space 页面 URL 中解析出 owner/name 时返回 null
+ */
+export function getConventionalAppUrl(spaceUrl: string): string | null {
+  const spaceId = parseSpaceId(spaceUrl);
+  if (!spaceId) return null;
+  return `https://${spaceId.replace(/[/_.]/g, "-").toLowerCase()}.hf.space/`;
+}
+
+/**
+ * 读取 URL 中 __sign 的过期时间
+ * @returns 不带 __sign 或无法解析时返回 null
+ */
+function getSignExpiry(url: string): number | null {
+  try {
+    const sign = new URL(url).searchParams.get("__sign");
+    return sign ? getJwtExpiry(sign) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 取出仍然有效的缓存地址，__sign 即将过期时丢弃缓存
+ * @returns 未开启缓存、没有缓存或缓存已过期时返回 null
+ */
+export function getCachedIframeUrl(target: Target): IframeCache | null {
+  const cache = target.iframeCache;
+  if (!cache || !target.config.cacheIframeUrl) return null;
+  if (
+    cache.expiresAt !== null &&
+    cache.expiresAt - Date.now() <= SIGN_EXPIRY_MARGIN
+  ) {
+    target.log.info("⌛ 缓存的应用 URL 中 __sign 即将过期，重新获取");
+    target.iframeCache = null;
+    return null;
+  }
+  return cache;
+}
+
+/**
+ * 缓存解析出的应用地址
+ */
+export function cacheIframeUrl(target: Target, discovered: DiscoveredUrl): void {
+  target.status.iframeUrl = discovered.url;
+  target.status.iframeSource = discovered.source;
+  if (!target.config.cacheIframeUrl) return;
+  target.iframeCache = {
+    ...discovered,
+    expiresAt: getSignExpiry(discovered.url),
+    cachedAt: Date.now(),
+  };
+}
+
+/**
+ * 保活失败后丢弃缓存的地址，下次重新从 Space 页面获取
+ */
+export function invalidateIframeUrl(target: Target): void {
+  if (!target.iframeCache) return;
+  target.iframeCache = null;
+  target.log.debug("已丢弃缓存的应用 URL");
+}
+
+/**
+ * Space 页面中找不到应用地址时的备用方式：
+ * Hub API 签名的 URL → TARGET_URL → Hub API 查询的 host → 命名约定
+ * @returns 都不可用时返回 null
+ */
+export async function resolveFallbackUrl(
+  target: Target,
+  log: Logger,
+  signal?: AbortSignal,
+): Promise<DiscoveredUrl | null> {
+  const { spaceUrl, targetUrl } = target.config;
+
+  if (target.hubCredentials) {
+    log.warn("⚠️ 无法从 Space 页面提取 iframe URL，使用 Hub API 签名的 URL");
+    return { url: target.hubCredentials.signedUrl, source: "hub" };
+  }
+  if (targetUrl) {
+    log.warn("⚠️ 无法从 Space 页面提取 iframe URL，使用备用 TARGET_URL");
+    return { url: targetUrl, source: "targetUrl" };
+  }
+  if (!spaceUrl) return null;
+
+  try {
+    const host = await fetchSpaceHost(target, signal);
+    if (host) {
+      log.warn(`⚠️ 无法从 Space 页面提取 iframe URL，使用 Hub API 返回的地址：${host}`);
+      return { url: host, source: "hub" };
+    }
+  } catch (error: unknown) {
+    if (signal?.aborted) throw error;
+    log.warn(
+      `⚠️ 通过 Hub API 查询 Space 地址失败：${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+  }
+
+  const conventionalUrl = getConventionalAppUrl(spaceUrl);
+  if (conventionalUrl) {
+    log.warn(`⚠️ 无法从 Space 页面提取 iframe URL，按命名约定使用：${conventionalUrl}`);
+    return { url: conventionalUrl, source: "convention" };
+  }
+  return null;
+}
+
+// 浏览器打开页面时附带的请求头
+const SPACE_PAGE_HEADERS: Record<string, string> = {
+  "Cache-Control": "max-age=0",
+  "Sec-Fetch-Dest": "document",
+  "Sec-Fetch-Mode": "navigate",
+  "Sec-Fetch-Site": "same-origin",
+  "Sec-Fetch-User": "?1",
+  "Upgrade-Insecure-Requests": "1",
+};
+
+/**
+ * Space 页面的解析结果
+ */
+export interface SpacePageInfo {
+  iframe: DiscoveredUrl | null;
+  state: SpaceState;
+}
+
+/**
+ * 从 Space 页面获取 iframe 的真实 URL 与 Space 运行状态
+ * @returns iframe 获取失败时为 null；state 无法识别时为 SpaceState.Unknown
+ */
+export async function getIframeUrl(
+  target: Target,
+  signal?: AbortSignal,
+): Promise<SpacePageInfo> {
+  const { spaceUrl, name, useRuntimeApi, hfToken, request } = target.config;
+  const startTime = Date.now();
+  const log = target.log.child({ phase: "space-page" });
+  // 记入响应时间直方图的结果与耗时，失败与超时同样计入
+  let result: "ok" | "http_error" | "error" | "cancelled" = "error";
+  let durationMs: number | null = null;
+
+  try {
+    log.info(`🔄 正在访问 Space 页面：${spaceUrl}`, { url: spaceUrl });
+
+    const { response, finalUrl, hops } = await requestWithRedirects(
+      target,
+      spaceUrl,
+      {
+        // 页面始终用 GET 获取；请求头、User-Agent 与超时来自目标的 profile
+        headers: {
+          ...SPACE_PAGE_HEADERS,
+          ...request.headers,
+          "User-Agent": request.userAgent,
+          // 私有 Space 的页面需要访问令牌
+          ...(hfToken ? { "Authorization": `Bearer ${hfToken}` } : {}),
+        },
+        headersTimeout: request.headersTimeout,
+        bodyTimeout: request.bodyTimeout,
+        signal,
+      },
+    );
+
+    if (hops.length > 0) {
+      log.info(
+        `↪️ Space 页面发生重定向：${formatRedirectChain(hops, finalUrl)}`,
+        { redirects: hops.length, finalUrl },
+      );
+    }
+
+    const html = await readBody(response, request.maxBodySize);
+    durationMs = Date.now() - startTime;
+    result = response.statusCode === 200 ? "ok" : "http_error";
+    const responseLog = log.child({
+      statusCode: response.statusCode,
+      durationMs,
+    });
+
+    if (response.statusCode !== 200) {
+      responseLog.error(`❌ 获取 Space 页面失败：HTTP ${response.statusCode}`);
+      return { iframe: null, state: SpaceState.Unknown };
+    }
+
+    // 识别 Space 运行状态（启用 runtime API 时以 API 结果为准）
+    let state = detectSpaceStateFromHtml(html);
+    if (useRuntimeApi) {
+      const runtimeState = await fetchSpaceRuntimeState(target, signal);
+      if (runtimeState !== SpaceState.Unknown) {
+        state = runtimeState;
+      }
+    }
+    if (state !== SpaceState.Unknown) {
+      responseLog.info(`🛰️ Space 状态：${state}`, { spaceState: state });
+    }
+
+    // 提取 iframe URL
+    const iframe = extractIframeUrl(html, spaceUrl, responseLog);
+
+    return { iframe, state };
+  } catch (error: unknown) {
+    // 进程退出时取消的请求由 keepAlive 统一记录
+    if (signal?.aborted) {
+      result = "cancelled";
+      return { iframe: null, state: SpaceState.Unknown };
+    }
+    const fields = { durationMs: Date.now() - startTime };
+    if (error instanceof Error) {
+      log.error(`❌ 获取 iframe URL 异常：${error.message}`, fields);
+    } else {
+      log.error(`❌ 获取 iframe URL 异常：${String(error)}`, fields);
+    }
+    return { iframe: null, state: SpaceState.Unknown };
+  } finally {
+    spacePageDuration.observe(
+      { target: name, result },
+      (durationMs ?? Date.now() - startTime) / 1000,
+    );
+  }
+}
@@ -2,20 +2,37 @@
  * Hugging Face Space 自动保活工具
  *
  * 功能：
- * - 定时每30秒访问指定的Hugging Face Space URL
- * - 自动从Space页面提取iframe的真实URL
+ * - 按配置的间隔（默认30秒）定时访问指定的Hugging Face Space URL，支持在一个进程内保活多个 Space
+ * - 也可按 cron 表达式调度，支持随机推迟、保活时段与静默时段
+ * - 请求方法、请求头、User-Agent 与超时可通过 profiles 按目标配置
+ * - 自动从Space页面提取iframe的真实URL，也可通过 Hub API 或命名约定发现，并缓存到 __sign 过期
  * - 自动解析和刷新Cookie以维持会话
  * - 智能检测保活状态（成功/失败）
+ * - 可选的深度保活：调用 Gradio 接口或建立 Streamlit 会话，与应用实际交互
+ * - 可选地唤醒休眠的 Space，并在更长的期限内等待冷启动完成
  *
  * 使用方法：
  * 1. 本地运行：export SPACE_URL="..." && export CURRENT_COOKIE="..." && npm run dev
  * 2. Docker运行：docker run -e SPACE_URL=... -e CURRENT_COOKIE=... hf-keep-alive
  * 3. 配置文件：node dist/index.js --config config.json
+ * 4. 单次检查：node dist/index.js check --config config.json（失败时退出码为 1）
+ *
+ * 命令：run（默认）、check、cookies、validate、stats，详见 node dist/index.js --help；
+ * 每个配置字段都可以通过命令行参数设置，如 --interval 60000
  *
  * 环境变量：
  * - SPACE_URL：Hugging Face Space页面URL（如：https://huggingface.co/spaces/username/space-name）
  * - CURRENT_COOKIE：访问Space所需的Cookie（包含token等认证信息）
- * - CONFIG_FILE：配置文件路径（JSON格式），优先级高于环境变量
+ * - LOG_LEVEL：日志级别（debug/info/warn/error），默认 info
+ * - LOG_FORMAT：日志格式（text/json），默认 text
+ * - DEBUG_SECRETS：设为 true 时日志不脱敏（仅用于本地调试）
+ * - HF_TOKEN：HF 访问令牌（hf_...），设置后自动通过 Hub API 获取 Space JWT，无需 CURRENT_COOKIE
+ * - CONFIG_FILE：配置文件路径（JSON 或 YAML 格式）
+ *
+ * 配置优先级：命令行参数 > 环境变量 > 配置文件 > 默认值；
+ * 配置文件中的字符串可用 ${ENV_VAR} 引用环境变量
+ * 修改配置文件或发送 SIGHUP 后会重新加载配置，无需重启；
+ * 收到 SIGTERM / SIGINT 时等待进行中的保活结束后退出
  *
  * 配置文件格式（config.json）：
  * {
@@ -24,726 +41,152 @@
  *   "interval": 30000,
  *   "expectedStatusCodes": [200]
  * }
+ *
+ * 多目标配置文件格式（顶层字段作为各目标的默认值）：
+ * {
+ *   "interval": 30000,
+ *   "targets": [
+ *     { "name": "space-a", "spaceUrl": "...", "currentCookie": "..." },
+ *     { "name": "space-b", "targetUrl": "...", "currentCookie": "...", "maxRetries": 3 }
+ *   ]
+ * }
  */
 
-import { request } from "undici";
-import * as cookie from "cookie";
-import { env } from "process";
-import { readFileSync } from "fs";
-import { resolve } from "path";
-import * as cheerio from "cheerio";
-
-// ==================== 配置部分 ====================
-
-interface Config {
-  spaceUrl: string;
-  targetUrl: string;
-  cookie: string;
-  interval: number;
-  expectedStatusCodes: number[];
-  maxRetries: number;
-  uptimeKuma?: {
-    pushUrl: string;
-    enabled: boolean;
-  };
-}
-
-/**
- * 配置文件接口
- */
-interface ConfigFile {
-  spaceUrl?: string;
-  targetUrl?: string;
-  currentCookie?: string;
-  interval?: number;
-  expectedStatusCodes?: number[];
-  maxRetries?: number;
-  uptimeKumaPushUrl?: string;
-  uptimeKumaEnabled?: boolean;
-}
-
-/**
- * 从配置文件读取配置
- */
-function loadConfigFromFile(configPath: string): Partial<Config> {
-  try {
-    const resolvedPath = resolve(configPath);
-    const fileContent = readFileSync(resolvedPath, "utf-8");
-    const configData: ConfigFile = JSON.parse(fileContent);
-
-    console.log(`✅ 成功读取配置文件：${resolvedPath}`);
+import { type CliOptions, formatHelp, parseCli } from "./cli.js";
+import {
+  checkCommand,
+  cookiesCommand,
+  exitWithConfigError,
+  loadValidConfig,
+  printTargetConfig,
+  statsCommand,
+  validateCommand,
+} from "./commands.js";
+import { ConfigError, getConfigFilePath, loadLoggingConfig } from "./config.js";
+import { initCookie } from "./cookies.js";
+import { configureHistory } from "./history.js";
+import { configureLogging } from "./logger.js";
+import { watchConfig } from "./reload.js";
+import { startTarget, triggerTarget } from "./scheduler.js";
+import { handleShutdown } from "./shutdown.js";
+import { startStatusServer } from "./status-server.js";
+import { createTarget } from "./target.js";
+import { formatDuration } from "./utils.js";
 
-    return {
-      spaceUrl: configData.spaceUrl || "",
-      targetUrl: configData.targetUrl || "",
-      cookie: configData.currentCookie || "",
-      interval: configData.interval || 30000,
-      expectedStatusCodes: configData.expectedStatusCodes || [200],
-      maxRetries: configData.maxRetries ?? 5,
-      uptimeKuma: configData.uptimeKumaPushUrl
-        ? {
-          pushUrl: configData.uptimeKumaPushUrl,
-          enabled: configData.uptimeKumaEnabled ?? true,
-        }
-        : undefined,
-    };
-  } catch (error) {
-    if (error instanceof Error) {
-      console.error(`❌ 读取配置文件失败：${error.message}`);
-    } else {
-      console.error(`❌ 读取配置文件失败：${String(error)}`);
-    }
-    process.exit(1);
-  }
-}
+// ==================== 主程序 ====================
 
 /**
- * 获取命令行参数
+ * run：持续保活
  */
-function getConfigFilePath(): string | null {
-  const args = process.argv.slice(2);
-  const configIndex = args.indexOf("--config");
-
-  if (configIndex !== -1 && configIndex + 1 < args.length) {
-    return args[configIndex + 1];
-  }
-
-  return env.CONFIG_FILE || null;
-}
-
-// 初始化配置
-const configFilePath = getConfigFilePath();
-const fileConfig = configFilePath ? loadConfigFromFile(configFilePath) : {};
-
-const CONFIG: Config = {
-  spaceUrl: fileConfig.spaceUrl || env.SPACE_URL || "",
-  targetUrl: fileConfig.targetUrl || env.TARGET_URL || "",
-  cookie: fileConfig.cookie || env.CURRENT_COOKIE || "",
-  interval: fileConfig.interval ||
-    (env.INTERVAL ? parseInt(env.INTERVAL, 10) : 30000),
-  expectedStatusCodes: fileConfig.expectedStatusCodes ||
-    (env.EXPECTED_STATUS_CODES
-      ? env.EXPECTED_STATUS_CODES.split(",").map((code) => parseInt(code, 10))
-      : [200]),
-  maxRetries: fileConfig.maxRetries ??
-    (env.MAX_RETRIES ? parseInt(env.MAX_RETRIES, 10) : 5),
-  uptimeKuma: fileConfig.uptimeKuma || (env.UPTIME_KUMA_PUSH_URL
-    ? {
-      pushUrl: env.UPTIME_KUMA_PUSH_URL,
-      enabled: env.UPTIME_KUMA_ENABLED !== "false",
-    }
-    : undefined),
-};
-
-// 失败检测标记
-const FAILURE_MARKERS = [
-  "Sorry, we can't find the page you are looking for.",
-  "https://huggingface.co/front/assets/huggingface_logo.svg",
-];
+function runCommand(cli: CliOptions): void {
+  console.log("╔════════════════════════════════════════════════════════════╗");
+  console.log("║   Hugging Face Space 自动保活工具 v2.0.0                   ║");
+  console.log("║   自动提取iframe URL，刷新Cookie，定时访问                 ║");
+  console.log(
+    "╚════════════════════════════════════════════════════════════╝\n",
+  );
 
-// ==================== 验证函数 ====================
+  // 加载并验证配置
+  const config = loadValidConfig(cli);
 
-/**
- * 验证必要的环境变量
- */
-function validateConfig(): void {
-  if (!CONFIG.spaceUrl && !CONFIG.targetUrl) {
-    console.error("❌ 错误：未设置 SPACE_URL 或 TARGET_URL 环境变量");
-    console.error(
-      '请设置：export SPACE_URL="https://huggingface.co/spaces/username/space-name"',
-    );
-    console.error(
-      '或设置：export TARGET_URL="https://your-space.hf.space/..."',
-    );
-    process.exit(1);
+  // 显示配置信息
+  console.log(`📋 配置信息（共 ${config.targets.length} 个目标）：`);
+  for (const targetConfig of config.targets) {
+    printTargetConfig(targetConfig, (line) => console.log(line));
   }
+  console.log(
+    `   状态服务：${config.http.enabled ? `✅ ${config.http.host}:${config.http.port}${config.http.token ? "（需要令牌）" : ""}` : "❌ 已禁用"}`,
+  );
+  console.log(
+    `   运行历史：${config.history.file ? `✅ ${config.history.file}（保留${formatDuration(config.history.retention)}）` : "❌ 未启用"}`,
+  );
+  console.log("");
 
-  if (!CONFIG.cookie) {
-    console.error("❌ 错误：未设置 CURRENT_COOKIE 环境变量");
-    console.error('请设置：export CURRENT_COOKIE="token=..."');
-    process.exit(1);
-  }
+  // 记录每次尝试的结果，供 stats 统计可用率
+  void configureHistory(config.history);
 
-  // 验证SPACE_URL格式（如果设置了）
-  if (CONFIG.spaceUrl) {
-    try {
-      new URL(CONFIG.spaceUrl);
-    } catch {
-      console.error("❌ 错误：SPACE_URL 格式无效");
-      process.exit(1);
-    }
-  }
+  // 每个目标拥有独立的 Cookie 存储
+  const targets = config.targets.map(createTarget);
 
-  // 验证TARGET_URL格式（如果设置了）
-  if (CONFIG.targetUrl) {
-    try {
-      new URL(CONFIG.targetUrl);
-    } catch {
-      console.error("❌ 错误：TARGET_URL 格式无效");
-      process.exit(1);
-    }
-  }
-}
+  // 初始化Cookie
+  targets.forEach(initCookie);
 
-// ==================== Cookie管理 ====================
+  // 启动状态服务
+  const server = config.http.enabled
+    ? startStatusServer(config.http, targets, triggerTarget)
+    : null;
 
-/**
- * Cookie对象，用于存储Cookie键值对
- */
-interface CookieObject {
-  [key: string]: string;
-}
+  console.log("\n🚀 启动保活服务...\n");
 
-/**
- * 按域名分组的 Cookie 存储
- */
-interface CookieStorage {
-  [domain: string]: CookieObject;
-}
+  // 每个目标独立调度
+  targets.forEach(startTarget);
 
-// 存储所有域名的 Cookie
-let cookieStorage: CookieStorage = {};
+  // 配置文件修改或收到 SIGHUP 时重新加载配置
+  const stopWatching = watchConfig(
+    targets,
+    config.http,
+    getConfigFilePath(cli.configPath),
+    () => loadValidConfig(cli),
+  );
 
-/**
- * 从 URL 中提取域名
- */
-function extractDomain(url: string): string {
-  try {
-    const urlObj = new URL(url);
-    return urlObj.hostname;
-  } catch {
-    return "";
-  }
+  // 收到 SIGTERM / SIGINT 时等待进行中的保活结束并保存状态后退出
+  handleShutdown({
+    targets,
+    server,
+    stopWatching,
+    timeout: config.shutdownTimeout,
+  });
 }
 
 /**
- * 初始化Cookie
+ * 解析命令行参数并执行对应的命令
  */
-function initCookie(): void {
+async function main(): Promise<void> {
+  let cli: CliOptions;
   try {
-    // 为每个配置的 URL 初始化 Cookie
-    const urls: string[] = [];
-    if (CONFIG.spaceUrl) urls.push(CONFIG.spaceUrl);
-    if (CONFIG.targetUrl) urls.push(CONFIG.targetUrl);
-
-    // 去重
-    const uniqueDomains = new Set<string>();
-
-    for (const url of urls) {
-      const domain = extractDomain(url);
-      if (domain) {
-        uniqueDomains.add(domain);
-      }
-    }
-
-    // 为每个域名初始化相同的 Cookie
-    const parsed = cookie.parseCookie(CONFIG.cookie);
-    const cookieObj: CookieObject = {};
-
-    Object.entries(parsed).forEach(([key, value]) => {
-      if (value !== undefined) {
-        cookieObj[key] = value;
-      }
-    });
-
-    // 将 Cookie 存储到每个域名下
-    uniqueDomains.forEach((domain) => {
-      cookieStorage[domain] = { ...cookieObj };
-    });
-
-    console.log("✅ Cookie解析成功");
-    console.log("🍪 已为以下域名初始化 Cookie：");
-    console.log("   ", Object.keys(cookieStorage).join(", "));
-    console.log("🍪 Cookie内容：", JSON.stringify(cookieObj, null, 2));
+    cli = parseCli(process.argv.slice(2));
   } catch (error) {
-    console.error("❌ Cookie解析失败：", error);
+    if (!(error instanceof ConfigError)) throw error;
+    console.error("❌ 错误：命令行参数无效");
+    error.errors.forEach((message) => console.error(`   ${message}`));
+    console.error("使用 --help 查看用法");
     process.exit(1);
   }
-}
 
-/**
- * 将Cookie对象序列化为请求头格式
- * @param url 目标 URL，用于选择对应域名的 Cookie
- */
-function serializeCookie(url: string): string {
-  const domain = extractDomain(url);
-
-  if (!domain || !cookieStorage[domain]) {
-    // 如果没有找到对应域名的 Cookie，返回空字符串
-    console.warn(`⚠️ 未找到域名 [${domain}] 的 Cookie`);
-    return "";
-  }
-  console.log(JSON.stringify(cookieStorage, null, 4));
-  // 使用 stringifyCookie 将对象序列化为 Cookie header 字符串
-  return cookie.stringifyCookie(cookieStorage[domain]);
-}
-
-/**
- * 更新Cookie（处理服务器返回的Set-Cookie头）
- * @param url 请求的 URL，用于确定更新哪个域名的 Cookie
- */
-function updateCookies(url: string, setCookieHeaders: string[]): void {
-  const domain = extractDomain(url);
-
-  if (!domain) {
-    console.warn("⚠️ 无法从 URL 提取域名，跳过 Cookie 更新");
+  if (cli.help) {
+    console.log(formatHelp());
     return;
   }
 
-  // 如果该域名还没有 Cookie 存储，初始化一个
-  if (!cookieStorage[domain]) {
-    cookieStorage[domain] = {};
-  }
-
-  let updateCount = 0;
-
-  for (const setCookieHeader of setCookieHeaders) {
-    try {
-      // 使用 parseSetCookie 解析 Set-Cookie header 字符串
-      const parsed = cookie.parseSetCookie(setCookieHeader);
-
-      // 提取有效的Cookie键值对
-      if (parsed.name && parsed.value) {
-        const oldValue = cookieStorage[domain][parsed.name];
-        cookieStorage[domain][parsed.name] = parsed.value;
-        updateCount++;
-
-        // 只在值真正改变时记录
-        if (oldValue !== parsed.value) {
-          const valuePreview = parsed.value.length > 5000
-            ? `${parsed.value.substring(0, 5000)}...`
-            : parsed.value;
-          console.log(`  ✅ 更新Cookie: ${parsed.name} = ${valuePreview}`);
-        }
-      }
-    } catch (error) {
-      console.warn(`  ⚠️ 解析Set-Cookie失败：${error}`);
-    }
-  }
-
-  if (updateCount > 0) {
-    console.log(`🍪 已更新域名 [${domain}] 的 ${updateCount} 个Cookie`);
-    console.log(JSON.stringify(cookieStorage, null, 4));
-  }
-}
-
-// ==================== Uptime Kuma 推送 ====================
-
-/**
- * 推送状态到 Uptime Kuma
- * @param status 服务状态: "up" 或 "down"
- * @param msg 状态消息
- * @param ping 响应时间（毫秒）
- */
-async function pushToUptimeKuma(
-  status: "up" | "down",
-  msg: string,
-  ping?: number,
-): Promise<void> {
-  if (!CONFIG.uptimeKuma || !CONFIG.uptimeKuma.enabled) {
-    return; // 未启用 Uptime Kuma
-  }
-
-  const timestamp = getTimestamp();
-
-  try {
-    const pushUrl = new URL(CONFIG.uptimeKuma.pushUrl);
-    pushUrl.searchParams.set("status", status);
-    pushUrl.searchParams.set("msg", msg);
-
-    if (ping !== undefined) {
-      pushUrl.searchParams.set("ping", ping.toString());
-    }
-
-    console.log(`[${timestamp}] 📊 推送到 Uptime Kuma：${status}`);
-
-    const response = await request(pushUrl.toString(), {
-      method: "GET",
-      headersTimeout: 20000,
-      bodyTimeout: 20000,
-    });
-
-    const responseBody = await response.body.text();
-
-    if (response.statusCode === 200) {
-      const result = JSON.parse(responseBody);
-      if (result.ok) {
-        console.log(`[${timestamp}] ✅ Uptime Kuma 推送成功`);
-      } else {
-        console.warn(
-          `[${timestamp}] ⚠️ Uptime Kuma 推送失败：${result.msg || "未知错误"}`,
-        );
-      }
-    } else {
-      console.warn(
-        `[${timestamp}] ⚠️ Uptime Kuma 推送失败：HTTP ${response.statusCode}`,
-      );
-    }
-  } catch (error: unknown) {
-    if (error instanceof Error) {
-      console.warn(`[${timestamp}] ⚠️ Uptime Kuma 推送异常：${error.message}`);
-    } else {
-      console.warn(`[${timestamp}] ⚠️ Uptime Kuma 推送异常：${String(error)}`);
-    }
-  }
-}
-
-// ==================== iframe URL 提取 ====================
+  // 设置日志级别与格式，并统一脱敏日志中的 Cookie 和令牌
+  configureLogging(
+    loadLoggingConfig({ level: cli.logLevel, format: cli.logFormat }),
+  );
 
-/**
- * 从 Space 页面 HTML 中提取 iframe 的 src 属性
- * @param html Space 页面的 HTML 内容
- * @returns iframe 的 src URL，如果未找到则返回 null
- */
-function extractIframeUrl(html: string): string | null {
   try {
-    const $ = cheerio.load(html);
-    const iframe = $("iframe.space-iframe");
-
-    if (iframe.length === 0) {
-      console.warn("⚠️ 未找到 class='space-iframe' 的 iframe 元素");
-      return null;
+    switch (cli.command) {
+      case "run":
+        runCommand(cli);
+        break;
+      case "check":
+        process.exit(await checkCommand(cli));
+        break;
+      case "cookies":
+        cookiesCommand(cli);
+        break;
+      case "validate":
+        validateCommand(cli);
+        break;
+      case "stats":
+        await statsCommand(cli);
+        break;
     }
-
-    const src = iframe.attr("src");
-    if (!src) {
-      console.warn("⚠️ iframe 元素没有 src 属性");
-      return null;
-    }
-
-    console.log(`✅ 成功提取 iframe URL：${src}`);
-    return src;
   } catch (error) {
-    console.error("❌ 解析 HTML 失败：", error);
-    return null;
+    if (!(error instanceof ConfigError)) throw error;
+    exitWithConfigError(error);
   }
 }
 
-/**
- * 从 Space 页面获取 iframe 的真实 URL
- * @returns iframe 的 src URL，如果获取失败则返回 null
- */
-async function getIframeUrl(): Promise<string | null> {
-  const timestamp = getTimestamp();
-
-  try {
-    console.log(`\n[${timestamp}] 🔄 正在访问 Space 页面：${CONFIG.spaceUrl}`);
-
-    const cookieHeader = serializeCookie(CONFIG.spaceUrl);
-
-    const response = await request(CONFIG.spaceUrl, {
-      headers: {
-        "Cookie": cookieHeader,
-        "User-Agent":
-          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-        "Accept":
-          "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8",
-        "Accept-Language": "zh-CN,zh;q=0.9,en;q=0.8",
-        "Cache-Control": "max-age=0",
-        "Sec-Fetch-Dest": "document",
-        "Sec-Fetch-Mode": "navigate",
-        "Sec-Fetch-Site": "same-origin",
-        "Sec-Fetch-User": "?1",
-        "Upgrade-Insecure-Requests": "1",
-      },
-      headersTimeout: 30000,
-      bodyTimeout: 30000,
-    });
-
-    // 处理服务器返回的Cookie更新
-    const setCookieHeaders = response.headers["set-cookie"];
-    if (setCookieHeaders) {
-      // undici 可能返回 string 或 string[]
-      const headers = Array.isArray(setCookieHeaders)
-        ? setCookieHeaders
-        : [setCookieHeaders];
-      if (headers.length > 0) {
-        updateCookies(CONFIG.spaceUrl, headers);
-      }
-    }
-
-    const html = await response.body.text();
-
-    if (response.statusCode !== 200) {
-      console.error(
-        `[${timestamp}] ❌ 获取 Space 页面失败：HTTP ${response.statusCode}`,
-      );
-      return null;
-    }
-
-    // 提取 iframe URL
-    const iframeUrl = extractIframeUrl(html);
-
-    return iframeUrl;
-  } catch (error: unknown) {
-    if (error instanceof Error) {
-      console.error(`[${timestamp}] ❌ 获取 iframe URL 异常：${error.message}`);
-    } else {
-      console.error(`[${timestamp}] ❌ 获取 iframe URL 异常：${String(error)}`);
-    }
-    return null;
-  }
-}
-
-// ==================== 保活检测 ====================
-
-/**
- * 检测响应是否包含失败标记
- */
-function containsFailureMarker(responseBody: string): boolean {
-  return FAILURE_MARKERS.some((marker) => responseBody.includes(marker));
-}
-
-/**
- * 格式化时间戳
- */
-function getTimestamp(): string {
-  return new Date().toISOString();
-}
-
-// ==================== 核心保活逻辑 ====================
-
-/**
- * 执行一次保活请求
- */
-async function keepAlive(): Promise<void> {
-  let lastError: Error | null = null;
-
-  // 重试循环
-  for (let attempt = 1; attempt <= CONFIG.maxRetries; attempt++) {
-    const timestamp = getTimestamp();
-    const startTime = Date.now();
-    const attemptLabel = attempt > 1 ? `[重试 ${attempt}/${CONFIG.maxRetries}] ` : "";
-
-    try {
-      let targetUrl: string | null = null;
-
-      // 优先从 Space 页面获取 iframe URL
-      if (CONFIG.spaceUrl) {
-        const iframeUrl = await getIframeUrl();
-        if (iframeUrl) {
-          targetUrl = iframeUrl;
-        }
-      }
-
-      // 如果无法从 Space 页面获取 URL，使用 TARGET_URL 作为备用
-      if (!targetUrl) {
-        if (CONFIG.targetUrl) {
-          console.log(
-            `[${timestamp}] ${attemptLabel}⚠️ 无法从 Space 页面提取 iframe URL，使用备用 TARGET_URL`,
-          );
-          targetUrl = CONFIG.targetUrl;
-        } else {
-          console.error(
-            `[${timestamp}] ${attemptLabel}❌ 无法获取 iframe URL 且未配置 TARGET_URL，跳过本次保活`,
-          );
-          await pushToUptimeKuma("down", "无法获取目标 URL");
-          return;
-        }
-      }
-
-      console.log(`\n[${timestamp}] ${attemptLabel}🔄 正在访问：${targetUrl}`);
-
-      const cookieHeader = serializeCookie(targetUrl);
-
-      // 发送GET请求
-      const response = await request(targetUrl, {
-        headers: {
-          "Cookie": cookieHeader,
-          "User-Agent":
-            "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-          "Accept":
-            "text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8",
-          "Accept-Language": "en-US,en;q=0.5",
-        },
-        headersTimeout: 30000, // 30秒超时
-        bodyTimeout: 30000,
-      });
-
-      // 计算响应时间
-      const responseTime = Date.now() - startTime;
-
-      // 处理服务器返回的Cookie更新
-      const setCookieHeaders = response.headers["set-cookie"];
-      if (setCookieHeaders) {
-        // undici 可能返回 string 或 string[]
-        const headers = Array.isArray(setCookieHeaders)
-          ? setCookieHeaders
-          : [setCookieHeaders];
-        if (headers.length > 0) {
-          updateCookies(targetUrl, headers);
-        }
-      }
-
-      // 读取响应体
-      const responseBody = await response.body.text();
-
-      // 检测失败标记
-      const hasFailureMarker = containsFailureMarker(responseBody);
-      const isExpectedStatusCode = CONFIG.expectedStatusCodes.includes(
-        response.statusCode,
-      );
-
-      if (hasFailureMarker) {
-        console.error(`[${timestamp}] ${attemptLabel}❌ 保活失败：检测到失败标记`);
-        console.error(`[${timestamp}] ${attemptLabel}HTTP状态码：${response.statusCode}`);
-        console.error(`[${timestamp}] ${attemptLabel}失败原因：页面不存在或服务已失效`);
-        lastError = new Error(`检测到失败标记 (HTTP ${response.statusCode})`);
-
-        if (attempt < CONFIG.maxRetries) {
-          console.log(`[${timestamp}] ${attemptLabel}等待2秒后重试...`);
-          await sleep(2000);
-          continue;
-        } else {
-          await pushToUptimeKuma(
-            "down",
-            `保活失败：检测到失败标记 (HTTP ${response.statusCode})`,
-          );
-          return;
-        }
-      } else if (!isExpectedStatusCode) {
-        console.warn(
-          `[${timestamp}] ${attemptLabel}⚠️ 收到非预期状态码：${response.statusCode}`,
-        );
-        console.warn(
-          `[${timestamp}] ${attemptLabel}期望状态码：${CONFIG.expectedStatusCodes.join(", ")}`,
-        );
-        console.warn(
-          `[${timestamp}] ${attemptLabel}响应体：${responseBody.substring(0, 200)}...`,
-        );
-        lastError = new Error(`非预期状态码：${response.statusCode}`);
-
-        if (attempt < CONFIG.maxRetries) {
-          console.log(`[${timestamp}] ${attemptLabel}等待2秒后重试...`);
-          await sleep(2000);
-          continue;
-        } else {
-          await pushToUptimeKuma(
-            "down",
-            `非预期状态码：${response.statusCode}`,
-            responseTime,
-          );
-          return;
-        }
-      } else {
-        const successLabel = attempt > 1 ? `[重试 ${attempt}/${CONFIG.maxRetries}] ` : "";
-        console.log(
-          `[${timestamp}] ${successLabel}✅ 保活成功：HTTP状态码 ${response.statusCode} (${responseTime}ms)`,
-        );
-        await pushToUptimeKuma("up", "OK", responseTime);
-        return;
-      }
-    } catch (error: unknown) {
-      if (error instanceof Error) {
-        lastError = error;
-        if (
-          error.name === "HeadersTimeoutError" ||
-          error.name === "BodyTimeoutError"
-        ) {
-          console.error(`[${timestamp}] ${attemptLabel}⚠️ 请求超时：超过30秒未响应`);
-        } else if ((error as any).code === "UND_ERR_CONNECT") {
-          console.error(`[${timestamp}] ${attemptLabel}⚠️ 网络错误：无法连接到服务器`);
-        } else {
-          console.error(`[${timestamp}] ${attemptLabel}⚠️ 未知错误：${error.message}`);
-        }
-
-        if (attempt < CONFIG.maxRetries) {
-          console.log(`[${timestamp}] ${attemptLabel}等待2秒后重试...`);
-          await sleep(2000);
-          continue;
-        } else {
-          if (
-            error.name === "HeadersTimeoutError" ||
-            error.name === "BodyTimeoutError"
-          ) {
-            await pushToUptimeKuma("down", "请求超时");
-          } else if ((error as any).code === "UND_ERR_CONNECT") {
-            await pushToUptimeKuma("down", "网络错误：无法连接");
-          } else {
-            await pushToUptimeKuma("down", `未知错误：${error.message}`);
-          }
-          return;
-        }
-      } else {
-        lastError = new Error(String(error));
-        console.error(`[${timestamp}] ${attemptLabel}⚠️ 未知错误：${String(error)}`);
-
-        if (attempt < CONFIG.maxRetries) {
-          console.log(`[${timestamp}] ${attemptLabel}等待2秒后重试...`);
-          await sleep(2000);
-          continue;
-        } else {
-          await pushToUptimeKuma("down", "未知错误");
-          return;
-        }
-      }
-    }
-  }
-
-  // 所有重试都失败
-  if (lastError) {
-    console.error(`[${getTimestamp()}] ❌ 所有重试均失败，已达到最大重试次数 (${CONFIG.maxRetries})`);
-  }
-}
-
-/**
- * 延迟函数
- */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-// ==================== 主程序 ====================
-
-/**
- * 启动保活服务
- */
-async function main(): Promise<void> {
-  console.log("╔════════════════════════════════════════════════════════════╗");
-  console.log("║   Hugging Face Space 自动保活工具 v2.0.0                   ║");
-  console.log("║   自动提取iframe URL，刷新Cookie，定时访问                 ║");
-  console.log(
-    "╚════════════════════════════════════════════════════════════╝\n",
-  );
-
-  // 验证配置
-  validateConfig();
-
-  // 显示配置信息
-  console.log("📋 配置信息：");
-  if (CONFIG.spaceUrl) {
-    console.log(`   Space页面URL：${CONFIG.spaceUrl}`);
-  }
-  if (CONFIG.targetUrl) {
-    console.log(`   备用TARGET_URL：${CONFIG.targetUrl}`);
-  }
-  console.log(`   刷新间隔：${CONFIG.interval / 1000}秒`);
-  console.log(`   期望状态码：${CONFIG.expectedStatusCodes.join(", ")}`);
-  console.log(`   最大重试次数：${CONFIG.maxRetries}次`);
-  if (CONFIG.uptimeKuma) {
-    if (CONFIG.uptimeKuma.enabled) {
-      console.log(`   Uptime Kuma推送：✅ 已启用`);
-      console.log(`   推送URL：${CONFIG.uptimeKuma.pushUrl}`);
-    } else {
-      console.log(`   Uptime Kuma推送：❌ 已禁用`);
-    }
-  } else {
-    console.log(`   Uptime Kuma推送：❌ 未配置`);
-  }
-  console.log("");
-
-  // 初始化Cookie
-  initCookie();
-
-  console.log("\n🚀 启动保活服务...\n");
-
-  // 立即执行一次
-  await keepAlive();
-
-  // 定时执行
-  setInterval(keepAlive, CONFIG.interval);
-}
-
 // 启动程序
 main().catch((error) => {
   console.error("❌ 程序发生异常：", error);
@@ -0,0 +1,614 @@
+/**
+ * 保活检测与核心保活逻辑
+ */
+
+import { containsFailureMarker, evaluateAssertions } from "./assertions.js";
+import { getRetryDelay, updateCircuitBreaker } from "./backoff.js";
+import { checkCookieExpiry } from "./cookie-expiry.js";
+import { DeepCheckError, runDeepCheck } from "./deep-check.js";
+import {
+  formatRedirectChain,
+  readBody,
+  requestWithRedirects,
+} from "./http-client.js";
+import { recordAttempt, recordCycle } from "./history.js";
+import { refreshHubCredentials } from "./hub-auth.js";
+import {
+  cacheIframeUrl,
+  type DiscoveredUrl,
+  getCachedIframeUrl,
+  getIframeUrl,
+  invalidateIframeUrl,
+  resolveFallbackUrl,
+} from "./iframe.js";
+import {
+  attemptFailures,
+  attemptSuccesses,
+  type FailureReason,
+  spaceStateGauge,
+  targetRequestDuration,
+  targetUp,
+} from "./metrics.js";
+import type { Logger } from "./logger.js";
+import { dispatchNotification } from "./notifiers/index.js";
+import { getSpaceHealth, SpaceState } from "./space-state.js";
+import type { KeepAliveOptions, KeepAliveResult, Target } from "./target.js";
+import { getTimestamp, sleep } from "./utils.js";
+import { wakeUpSpace } from "./wake-up.js";
+
+// ==================== 保活检测 ====================
+
+// 视为"无法连接"的系统错误码
+const CONNECT_ERROR_CODES = new Set([
+  "UND_ERR_CONNECT",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+]);
+
+/**
+ * 将请求异常归类为失败原因
+ */
+function classifyError(error: Error): FailureReason {
+  if (error instanceof DeepCheckError) {
+    return "deep_check";
+  }
+  if (
+    error.name === "HeadersTimeoutError" ||
+    error.name === "BodyTimeoutError" ||
+    // 深度保活的总超时
+    error.name === "TimeoutError"
+  ) {
+    return "timeout";
+  }
+  if (CONNECT_ERROR_CODES.has((error as NodeJS.ErrnoException).code ?? "")) {
+    return "connect_error";
+  }
+  return "unknown";
+}
+
+// ==================== 核心保活逻辑 ====================
+
+/**
+ * 记录本次保活结果并发送通知
+ * degraded（Space 正在构建或启动）不计入连续失败
+ */
+async function reportResult(
+  target: Target,
+  status: KeepAliveResult,
+  msg: string,
+  ping?: number,
+): Promise<void> {
+  const targetStatus = target.status;
+  // 只有 up ↔ down 才算状态变化：degraded 既不触发也不打断，
+  // 首次运行没有可比较的状态，也不算变化
+  const previousStatus = targetStatus.lastSettledResult;
+  if (status !== "degraded") {
+    targetStatus.lastSettledResult = status;
+  }
+  targetStatus.lastResult = status;
+  targetStatus.lastMessage = msg;
+  targetStatus.lastResponseTime = ping ?? null;
+  if (status === "up") {
+    targetStatus.consecutiveFailures = 0;
+  } else if (status === "down") {
+    targetStatus.consecutiveFailures++;
+  }
+  targetUp.set({ target: target.config.name }, status === "down" ? 0 : 1);
+  updateCircuitBreaker(target, status);
+  recordCycle(target, {
+    result: status,
+    durationMs: Date.now() - (targetStatus.lastRunAt ?? Date.now()),
+  });
+
+  await dispatchNotification(target, {
+    kind: "result",
+    target: target.config.name,
+    status,
+    previousStatus,
+    isTransition: status !== "degraded" && previousStatus !== null &&
+      previousStatus !== status,
+    message: msg,
+    ping,
+    timestamp: getTimestamp(),
+    spaceUrl: target.config.spaceUrl,
+    targetUrl: target.config.targetUrl,
+  });
+}
+
+/**
+ * 按指数退避等待下一次重试
+ * @returns 是否继续重试；进程退出或本轮被取消时立即结束等待并返回 false
+ */
+async function waitBeforeRetry(
+  target: Target,
+  attempt: number,
+  log: Logger,
+  options: KeepAliveOptions,
+): Promise<boolean> {
+  const stop = AbortSignal.any(
+    [options.signal, options.stopRetry].filter((signal) => signal !== undefined),
+  );
+  if (!stop.aborted) {
+    const delay = getRetryDelay(target, attempt);
+    log.info(`等待${(delay / 1000).toFixed(1)}秒后重试...`, { retryDelayMs: delay });
+    await sleep(delay, stop);
+  }
+  if (stop.aborted) {
+    log.info(
+      options.stopRetry?.aborted
+        ? "⏹️ 进程正在退出，放弃剩余的重试"
+        : "⏹️ 保活已取消，放弃剩余的重试",
+    );
+    return false;
+  }
+  return true;
+}
+
+/**
+ * 唤醒 Space 并处理结果
+ * @returns 唤醒成功时返回 true，应重新检测；唤醒失败（已记为 down）或进程退出时返回 false
+ */
+async function wakeUpAndReport(
+  target: Target,
+  options: KeepAliveOptions,
+): Promise<boolean> {
+  const result = await wakeUpSpace(target, options);
+  if (!result) return false;
+  if (result.outcome === "failed") {
+    await reportResult(target, "down", result.message);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * 记录 Space 运行状态
+ */
+function recordSpaceState(target: Target, state: SpaceState): void {
+  const previous = target.status.spaceState;
+  if (previous && previous !== state) {
+    spaceStateGauge.set({ target: target.config.name, state: previous }, 0);
+  }
+  spaceStateGauge.set({ target: target.config.name, state }, 1);
+  target.status.spaceState = state;
+}
+
+/**
+ * 按 profile 请求保活目标（跟随重定向）并读取响应体
+ * 失败与超时同样计入响应时间直方图
+ */
+async function requestTarget(
+  target: Target,
+  url: string,
+  signal?: AbortSignal,
+) {
+  const { config } = target;
+  const startTime = Date.now();
+  // 记入响应时间直方图的结果
+  let result: "ok" | "http_error" | "error" | "cancelled" = "error";
+
+  try {
+    const { response, finalUrl, hops } = await requestWithRedirects(
+      target,
+      url,
+      {
+        method: config.request.method,
+        body: config.request.body,
+        headers: {
+          ...config.request.headers,
+          "User-Agent": config.request.userAgent,
+        },
+        headersTimeout: config.request.headersTimeout,
+        bodyTimeout: config.request.bodyTimeout,
+        signal,
+      },
+    );
+    const responseBody = await readBody(response, config.request.maxBodySize);
+    result = config.expectedStatusCodes.includes(response.statusCode)
+      ? "ok"
+      : "http_error";
+    return { response, finalUrl, hops, responseBody };
+  } finally {
+    // 进程退出时取消的请求单独标记
+    if (result === "error" && signal?.aborted) result = "cancelled";
+    targetRequestDuration.observe(
+      { target: config.name, result },
+      (Date.now() - startTime) / 1000,
+    );
+  }
+}
+
+/**
+ * 执行一次保活请求
+ * 被取消或放弃重试时本轮不记录结果，也不发送通知
+ */
+export async function keepAlive(
+  target: Target,
+  options: KeepAliveOptions = {},
+): Promise<void> {
+  const { signal } = options;
+  const { config } = target;
+  const metricLabels = { target: config.name };
+  let lastError: Error | null = null;
+  // 每轮最多唤醒一次，唤醒后仍然休眠则按普通失败重试
+  let wakeAttempted = false;
+
+  target.status.lastRunAt = Date.now();
+
+  // 使用 HF 访问令牌时，先按需刷新 Space JWT
+  await refreshHubCredentials(target, signal);
+
+  // 检查 Cookie 有效期，即将过期时提醒
+  await checkCookieExpiry(target);
+
+  // 重试循环
+  for (let attempt = 1; attempt <= config.maxRetries; attempt++) {
+    const startTime = Date.now();
+    const log = target.log.child({ attempt, maxAttempts: config.maxRetries });
+    // 出错时所处的阶段，用于运行记录
+    let phase: "space-page" | "target" | "deep-check" = "space-page";
+
+    try {
+      let discovered: DiscoveredUrl | null = null;
+
+      // 缓存的地址仍然有效时跳过 Space 页面，否则优先从 Space 页面获取 iframe URL
+      const cached = getCachedIframeUrl(target);
+      if (cached) {
+        discovered = cached;
+        log.debug(`使用缓存的应用 URL（来源：${cached.source}）`);
+      } else if (config.spaceUrl) {
+        const { iframe, state } = await getIframeUrl(target, signal);
+        recordSpaceState(target, state);
+        const health = getSpaceHealth(state);
+        const spacePageLog = log.child({
+          phase: "space-page",
+          spaceState: state,
+        });
+
+        // 正在构建或启动：记为 degraded，不重试
+        if (health === "degraded") {
+          spacePageLog.warn(
+            `⏳ Space 正在构建或启动（${state}），本次记为 degraded`,
+            { outcome: "degraded" },
+          );
+          recordAttempt(target, {
+            attempt,
+            phase,
+            outcome: "degraded",
+            durationMs: Date.now() - startTime,
+          });
+          await reportResult(target, "degraded", `Space 状态：${state}`);
+          return;
+        }
+
+        // 休眠、暂停或出错：视为保活失败
+        if (health === "down") {
+          spacePageLog.error(`❌ 保活失败：Space 状态为 ${state}`, {
+            outcome: "space_state",
+          });
+          lastError = new Error(`Space 状态：${state}`);
+          attemptFailures.inc({ ...metricLabels, reason: "space_state" });
+          recordAttempt(target, {
+            attempt,
+            phase,
+            outcome: "space_state",
+            durationMs: Date.now() - startTime,
+          });
+
+          if (config.wakeUp && !wakeAttempted && state === SpaceState.Sleeping) {
+            wakeAttempted = true;
+            // 唤醒成功后重新检测，不占用重试次数
+            if (await wakeUpAndReport(target, options)) {
+              attempt--;
+              continue;
+            }
+            return;
+          }
+
+          if (attempt < config.maxRetries) {
+            if (await waitBeforeRetry(target, attempt, log, options)) continue;
+            return;
+          } else {
+            await reportResult(target, "down", `Space 状态：${state}`);
+            return;
+          }
+        }
+
+        discovered = iframe;
+      }
+
+      // 如果无法从 Space 页面获取 URL，依次使用 Hub API、TARGET_URL 与命名约定作为备用
+      if (!discovered) {
+        discovered = await resolveFallbackUrl(target, log, signal);
+        if (!discovered) {
+          log.error(
+            "❌ 无法获取 iframe URL 且未配置 TARGET_URL，跳过本次保活",
+            { phase: "space-page", outcome: "missing_iframe" },
+          );
+          attemptFailures.inc({ ...metricLabels, reason: "missing_iframe" });
+          recordAttempt(target, {
+            attempt,
+            phase,
+            outcome: "missing_iframe",
+            durationMs: Date.now() - startTime,
+          });
+          await reportResult(target, "down", "无法获取目标 URL");
+          return;
+        }
+      }
+      if (!cached) {
+        cacheIframeUrl(target, discovered);
+      }
+      const targetUrl = discovered.url;
+
+      phase = "target";
+      const targetLog = log.child({ phase });
+      targetLog.info(`🔄 正在访问：${targetUrl}`, { url: targetUrl });
+
+      // 按 profile 发送请求（跟随重定向）并读取响应体
+      const { response, finalUrl, hops, responseBody } = await requestTarget(
+        target,
+        targetUrl,
+        signal,
+      );
+
+      // 计算响应时间
+      const responseTime = Date.now() - startTime;
+
+      // 记录跳转链，并附加到推送消息中
+      target.status.finalUrl = finalUrl;
+      target.status.redirects = hops;
+      const redirectNote = hops.length > 0
+        ? `，重定向：${formatRedirectChain(hops, finalUrl)}`
+        : "";
+      if (hops.length > 0) {
+        targetLog.info(
+          `↪️ 发生 ${hops.length} 次重定向：${formatRedirectChain(hops, finalUrl)}`,
+          { redirects: hops.length, finalUrl },
+        );
+      }
+
+      // 检测失败标记
+      const hasFailureMarker = containsFailureMarker(
+        responseBody,
+        config.failureMarkers,
+      );
+      const isExpectedStatusCode = config.expectedStatusCodes.includes(
+        response.statusCode,
+      );
+      // 状态码和失败标记都通过后，再执行自定义断言
+      const assertionFailures = !hasFailureMarker && isExpectedStatusCode
+        ? evaluateAssertions(config.assertions, {
+          statusCode: response.statusCode,
+          headers: response.headers,
+          body: responseBody,
+          responseTime,
+        })
+        : [];
+      const responseLog = targetLog.child({
+        statusCode: response.statusCode,
+        durationMs: responseTime,
+      });
+
+      if (hasFailureMarker) {
+        responseLog.error(
+          `❌ 保活失败：检测到失败标记（HTTP状态码：${response.statusCode}），页面不存在或服务已失效`,
+          { outcome: "failure_marker" },
+        );
+        lastError = new Error(`检测到失败标记 (HTTP ${response.statusCode})`);
+        invalidateIframeUrl(target);
+        attemptFailures.inc({ ...metricLabels, reason: "failure_marker" });
+        recordAttempt(target, {
+          attempt,
+          phase,
+          outcome: "failure_marker",
+          statusCode: response.statusCode,
+          durationMs: responseTime,
+        });
+
+        if (config.wakeUp && !wakeAttempted) {
+          wakeAttempted = true;
+          // 唤醒成功后重新检测，不占用重试次数
+          if (await wakeUpAndReport(target, options)) {
+            attempt--;
+            continue;
+          }
+          return;
+        }
+
+        if (attempt < config.maxRetries) {
+          if (await waitBeforeRetry(target, attempt, log, options)) continue;
+          return;
+        } else {
+          await reportResult(
+            target,
+            "down",
+            `保活失败：检测到失败标记 (HTTP ${response.statusCode}${redirectNote})`,
+          );
+          return;
+        }
+      } else if (!isExpectedStatusCode) {
+        responseLog.warn(
+          `⚠️ 收到非预期状态码：${response.statusCode}（期望：${config.expectedStatusCodes.join(", ")}）`,
+          { outcome: "unexpected_status" },
+        );
+        responseLog.debug(`响应体：${responseBody.substring(0, 200)}...`);
+        lastError = new Error(`非预期状态码：${response.statusCode}`);
+        invalidateIframeUrl(target);
+        attemptFailures.inc({ ...metricLabels, reason: "unexpected_status" });
+        recordAttempt(target, {
+          attempt,
+          phase,
+          outcome: "unexpected_status",
+          statusCode: response.statusCode,
+          durationMs: responseTime,
+        });
+
+        if (attempt < config.maxRetries) {
+          if (await waitBeforeRetry(target, attempt, log, options)) continue;
+          return;
+        } else {
+          await reportResult(
+            target,
+            "down",
+            `非预期状态码：${response.statusCode}${redirectNote}`,
+            responseTime,
+          );
+          return;
+        }
+      } else if (assertionFailures.length > 0) {
+        responseLog.error(
+          `❌ 保活失败：自定义断言未通过：${assertionFailures.join("；")}`,
+          { outcome: "assertion", assertionFailures },
+        );
+        lastError = new Error(`断言失败：${assertionFailures.join("；")}`);
+        invalidateIframeUrl(target);
+        attemptFailures.inc({ ...metricLabels, reason: "assertion" });
+        recordAttempt(target, {
+          attempt,
+          phase,
+          outcome: "assertion",
+          statusCode: response.statusCode,
+          durationMs: responseTime,
+        });
+
+        if (attempt < config.maxRetries) {
+          if (await waitBeforeRetry(target, attempt, log, options)) continue;
+          return;
+        } else {
+          await reportResult(
+            target,
+            "down",
+            `断言失败：${assertionFailures.join("；")}${redirectNote}`,
+            responseTime,
+          );
+          return;
+        }
+      } else {
+        // 深度保活：与 Gradio / Streamlit 应用实际交互，失败时抛出，按请求异常处理
+        let deepNote = "";
+        if (config.deepCheck !== "off") {
+          phase = "deep-check";
+          const deepLog = log.child({ phase });
+          const deep = await runDeepCheck(target, finalUrl, deepLog, signal);
+          deepLog.info(
+            `🔬 深度保活成功（${deep.framework}${deep.version ? ` ${deep.version}` : ""}）：${deep.steps.join(" → ")} (${deep.durationMs}ms)`,
+            { framework: deep.framework, durationMs: deep.durationMs },
+          );
+          deepNote = `，深度保活：${deep.framework}`;
+        }
+
+        responseLog.info(
+          `✅ 保活成功：HTTP状态码 ${response.statusCode} (${responseTime}ms)`,
+          { outcome: "success" },
+        );
+        attemptSuccesses.inc(metricLabels);
+        recordAttempt(target, {
+          attempt,
+          phase,
+          outcome: "success",
+          statusCode: response.statusCode,
+          durationMs: responseTime,
+        });
+        await reportResult(
+          target,
+          "up",
+          `OK${redirectNote}${deepNote}`,
+          responseTime,
+        );
+        return;
+      }
+    } catch (error: unknown) {
+      // 进程退出时取消的请求不算失败
+      if (signal?.aborted) {
+        log.warn("⏹️ 请求已取消", { outcome: "cancelled" });
+        return;
+      }
+      invalidateIframeUrl(target);
+
+      if (error instanceof Error) {
+        lastError = error;
+        const reason = classifyError(error);
+        attemptFailures.inc({ ...metricLabels, reason });
+        const errorFields = {
+          outcome: reason,
+          durationMs: Date.now() - startTime,
+        };
+        recordAttempt(target, {
+          attempt,
+          phase,
+          outcome: reason,
+          durationMs: errorFields.durationMs,
+          errorClass: (error as NodeJS.ErrnoException).code ?? error.name,
+        });
+
+        if (reason === "deep_check") {
+          log.error(`❌ 深度保活失败：${error.message}`, errorFields);
+        } else if (reason === "timeout" && phase === "deep-check") {
+          log.error(
+            `⚠️ 深度保活超时：超过${config.deepCheckTimeout / 1000}秒未完成`,
+            errorFields,
+          );
+        } else if (reason === "timeout") {
+          log.error(
+            error.name === "BodyTimeoutError"
+              ? `⚠️ 请求超时：响应体超过${config.request.bodyTimeout / 1000}秒未传输完`
+              : `⚠️ 请求超时：超过${config.request.headersTimeout / 1000}秒未响应`,
+            errorFields,
+          );
+        } else if (reason === "connect_error") {
+          log.error("⚠️ 网络错误：无法连接到服务器", errorFields);
+        } else {
+          log.error(`⚠️ 未知错误：${error.message}`, errorFields);
+        }
+
+        if (attempt < config.maxRetries) {
+          if (await waitBeforeRetry(target, attempt, log, options)) continue;
+          return;
+        } else {
+          if (reason === "deep_check") {
+            await reportResult(target, "down", `深度保活失败：${error.message}`);
+          } else if (reason === "timeout") {
+            await reportResult(target, "down", "请求超时");
+          } else if (reason === "connect_error") {
+            await reportResult(target, "down", "网络错误：无法连接");
+          } else {
+            await reportResult(target, "down", `未知错误：${error.message}`);
+          }
+          return;
+        }
+      } else {
+        lastError = new Error(String(error));
+        attemptFailures.inc({ ...metricLabels, reason: "unknown" });
+        recordAttempt(target, {
+          attempt,
+          phase,
+          outcome: "unknown",
+          durationMs: Date.now() - startTime,
+          errorClass: typeof error,
+        });
+        log.error(`⚠️ 未知错误：${String(error)}`, { outcome: "unknown" });
+
+        if (attempt < config.maxRetries) {
+          if (await waitBeforeRetry(target, attempt, log, options)) continue;
+          return;
+        } else {
+          await reportResult(target, "down", "未知错误");
+          return;
+        }
+      }
+    }
+  }
+
+  // 所有重试都失败
+  if (lastError) {
+    target.log.error(
+      `❌ 所有重试均失败，已达到最大重试次数 (${config.maxRetries})`,
+    );
+  }
+}
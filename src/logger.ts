@@ -0,0 +1,234 @@
+/**
+ * 日志
+ *
+ * 提供分级（debug / info / warn / error）的日志输出，支持两种格式：
+ * - text：面向人阅读，形如 [时间] [目标] 消息
+ * - json：每行一个 JSON 对象，附带 target、attempt、phase、statusCode、
+ *   durationMs、outcome 等字段，便于 Loki / Elasticsearch 索引
+ *
+ * 所有输出默认脱敏，只保留敏感值的前 6 个字符和哈希：
+ * - Cookie 值（由调用方通过 redactSecret 处理）
+ * - JWT（eyJ...）、HF 访问令牌（hf_...）、Bearer 令牌
+ * - URL 中的 __sign、token 参数，Uptime Kuma 的 Push Token、Telegram Bot Token
+ *
+ * 哈希相同说明值相同，便于在不暴露内容的情况下比较 Cookie 是否更新。
+ * 设置 DEBUG_SECRETS=true 可关闭脱敏（仅用于本地调试）。
+ */
+
+import { createHash } from "crypto";
+import { format } from "util";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFormat = "text" | "json";
+
+/**
+ * 日志附带的结构化字段
+ */
+export interface LogFields {
+  target?: string;
+  // 当前是第几次尝试，以及最多尝试几次
+  attempt?: number;
+  maxAttempts?: number;
+  phase?: "space-page" | "target" | "deep-check" | "wake-up";
+  statusCode?: number;
+  durationMs?: number;
+  outcome?: string;
+  [key: string]: unknown;
+}
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  // 创建一个附带固定字段的子日志器
+  child(fields: LogFields): Logger;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const VISIBLE_PREFIX = 6;
+
+let redactionEnabled = true;
+let minLevel: LogLevel = "info";
+let outputFormat: LogFormat = "text";
+
+// 未被接管前的 console 方法，日志最终通过它们输出
+const rawConsole = {
+  log: console.log.bind(console),
+  warn: console.warn.bind(console),
+  error: console.error.bind(console),
+};
+
+// 文本中的敏感信息：第 1 组为原样保留的前缀，第 2 组为需要脱敏的值
+const SECRET_PATTERNS: RegExp[] = [
+  // URL 参数：__sign=...、token=...
+  /([?&](?:__sign|token)=)([^&\s"'#]+)/g,
+  // Uptime Kuma Push Token
+  /(\/api\/push\/)([^/?\s"'#]+)/g,
+  // Telegram Bot Token
+  /(\/bot)(\d+:[\w-]+)/g,
+  // Authorization 头
+  /(Bearer\s+)([^\s"',]+)/g,
+  // JWT
+  /()(eyJ[\w-]*\.[\w-]+\.[\w-]*)/g,
+  // HF 访问令牌
+  /()(\bhf_[A-Za-z0-9]{8,})/g,
+];
+
+/**
+ * 脱敏单个敏感值：保留前 6 个字符，其余替换为哈希
+ * 值太短时不保留前缀，避免泄露大部分内容；关闭脱敏时原样返回
+ */
+export function redactSecret(value: string): string {
+  if (!redactionEnabled) return value;
+
+  const hash = createHash("sha256").update(value).digest("hex").substring(0, 8);
+  const prefix = value.length > VISIBLE_PREFIX * 2
+    ? value.substring(0, VISIBLE_PREFIX)
+    : "";
+  return `${prefix}…#${hash}`;
+}
+
+/**
+ * 脱敏一段文本中所有可识别的敏感信息
+ */
+export function redactText(text: string): string {
+  if (!redactionEnabled) return text;
+
+  return SECRET_PATTERNS.reduce(
+    (result, pattern) =>
+      result.replace(
+        pattern,
+        (_, prefix: string, secret: string) => `${prefix}${redactSecret(secret)}`,
+      ),
+    text,
+  );
+}
+
+/**
+ * 递归脱敏结构化字段中的字符串
+ */
+export function redactValue(value: unknown): unknown {
+  if (typeof value === "string") return redactText(value);
+  if (Array.isArray(value)) return value.map(redactValue);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [key, redactValue(child)]),
+    );
+  }
+  return value;
+}
+
+/**
+ * warn / error 输出到 stderr，其余输出到 stdout
+ */
+function getOutput(level: LogLevel): (message: string) => void {
+  if (level === "error") return rawConsole.error;
+  if (level === "warn") return rawConsole.warn;
+  return rawConsole.log;
+}
+
+/**
+ * 输出一条日志
+ */
+function write(level: LogLevel, message: string, fields: LogFields): void {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[minLevel]) return;
+
+  const time = new Date().toISOString();
+  const output = getOutput(level);
+
+  if (outputFormat === "json") {
+    const { target, ...rest } = fields;
+    output(JSON.stringify({
+      time,
+      level,
+      ...(target !== undefined ? { target } : {}),
+      msg: redactText(message),
+      ...(redactValue(rest) as Record<string, unknown>),
+    }));
+    return;
+  }
+
+  // 文本格式：[时间] [目标] [重试 n/m] 消息
+  const { target, attempt, maxAttempts } = fields;
+  const targetLabel = target !== undefined ? `[${target}] ` : "";
+  const attemptLabel = attempt !== undefined && attempt > 1
+    ? `[重试 ${attempt}/${maxAttempts ?? "?"}] `
+    : "";
+  output(redactText(`[${time}] ${targetLabel}${attemptLabel}${message}`));
+}
+
+/**
+ * 创建日志器
+ * @param bound 每条日志都附带的字段
+ */
+export function createLogger(bound: LogFields = {}): Logger {
+  const log = (level: LogLevel) => (message: string, fields?: LogFields) =>
+    write(level, message, { ...bound, ...fields });
+
+  return {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+    child: (fields) => createLogger({ ...bound, ...fields }),
+  };
+}
+
+/**
+ * 不附带目标的全局日志器
+ */
+export const logger = createLogger();
+
+/**
+ * 解析日志级别
+ * @returns 无效时返回 null
+ */
+export function parseLogLevel(value: string): LogLevel | null {
+  const level = value.toLowerCase();
+  return level in LEVEL_ORDER ? level as LogLevel : null;
+}
+
+/**
+ * 设置日志级别、格式与脱敏，并接管 console 输出
+ *
+ * 接管后 console.log / info / debug / warn / error 按对应级别输出：
+ * text 格式下保持原样（启动时的配置打印等），json 格式下包装为 JSON 行
+ */
+export function configureLogging(options: {
+  level: LogLevel;
+  format: LogFormat;
+  redact: boolean;
+}): void {
+  minLevel = options.level;
+  outputFormat = options.format;
+  redactionEnabled = options.redact;
+
+  const methods = [
+    ["log", "info"],
+    ["info", "info"],
+    ["debug", "debug"],
+    ["warn", "warn"],
+    ["error", "error"],
+  ] as const;
+  for (const [method, level] of methods) {
+    console[method] = (...args: unknown[]) => {
+      const message = format(...args);
+      if (outputFormat === "json") {
+        write(level, message, {});
+      } else if (LEVEL_ORDER[level] >= LEVEL_ORDER[minLevel]) {
+        getOutput(level)(redactText(message));
+      }
+    };
+  }
+
+  if (!options.redact) {
+    logger.warn("⚠️ 已设置 DEBUG_SECRETS=true，日志中将显示完整的 Cookie 和令牌");
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * Prometheus 指标
+ *
+ * 仅实现本工具用到的计数器、仪表盘和直方图，输出 Prometheus 文本格式（0.0.4）
+ */
+
+type Labels = Record<string, string>;
+
+/**
+ * 转义标签值中的特殊字符
+ */
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/"/g, '\\"');
+}
+
+/**
+ * 将标签格式化为 {a="1",b="2"}
+ */
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  const pairs = entries.map(([key, value]) =>
+    `${key}="${escapeLabelValue(value)}"`
+  );
+  return `{${pairs.join(",")}}`;
+}
+
+/**
+ * 标签组合的唯一键
+ */
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort());
+}
+
+interface Metric {
+  render(): string;
+}
+
+abstract class LabeledMetric<T> implements Metric {
+  protected readonly series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(
+    protected readonly name: string,
+    protected readonly help: string,
+    protected readonly type: "counter" | "gauge" | "histogram",
+  ) {}
+
+  protected getSeries(
+    labels: Labels,
+    init: () => T,
+  ): { labels: Labels; value: T } {
+    const key = labelKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, value: init() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  protected abstract renderSeries(labels: Labels, value: T): string[];
+
+  render(): string {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+    ];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, value));
+    }
+    return lines.join("\n");
+  }
+}
+
+export class Counter extends LabeledMetric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    this.getSeries(labels, () => 0).value += value;
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${value}`];
+  }
+}
+
+export class Gauge extends LabeledMetric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  set(labels: Labels, value: number): void {
+    this.getSeries(labels, () => 0).value = value;
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${value}`];
+  }
+}
+
+interface HistogramValue {
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends LabeledMetric<HistogramValue> {
+  constructor(
+    name: string,
+    help: string,
+    private readonly buckets: number[],
+  ) {
+    super(name, help, "histogram");
+  }
+
+  observe(labels: Labels, value: number): void {
+    const entry = this.getSeries(labels, () => ({
+      buckets: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    })).value;
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) entry.buckets[index]++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  protected renderSeries(labels: Labels, value: HistogramValue): string[] {
+    const lines = this.buckets.map((bound, index) => {
+      const bucketLabels = formatLabels({ ...labels, le: String(bound) });
+      return `${this.name}_bucket${bucketLabels} ${value.buckets[index]}`;
+    });
+    lines.push(
+      `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${value.count}`,
+      `${this.name}_sum${formatLabels(labels)} ${value.sum}`,
+      `${this.name}_count${formatLabels(labels)} ${value.count}`,
+    );
+    return lines;
+  }
+}
+
+// ==================== 保活指标 ====================
+
+/**
+ * 保活失败原因
+ */
+export type FailureReason =
+  | "failure_marker"
+  | "unexpected_status"
+  | "timeout"
+  | "connect_error"
+  | "missing_iframe"
+  | "space_state"
+  | "assertion"
+  | "deep_check"
+  | "unknown";
+
+// 响应时间直方图的分桶（秒）
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+// 唤醒耗时直方图的分桶（秒），冷启动通常需要几分钟
+const WAKE_UP_BUCKETS = [10, 30, 60, 90, 120, 180, 300, 600];
+
+export const attemptSuccesses = new Counter(
+  "hf_keepalive_success_total",
+  "Number of successful keep-alive attempts",
+);
+
+export const attemptFailures = new Counter(
+  "hf_keepalive_failures_total",
+  "Number of failed keep-alive attempts by reason",
+);
+
+export const spacePageDuration = new Histogram(
+  "hf_keepalive_space_page_duration_seconds",
+  "Response time of the Hugging Face Space page request",
+  DURATION_BUCKETS,
+);
+
+export const targetRequestDuration = new Histogram(
+  "hf_keepalive_target_duration_seconds",
+  "Response time of the keep-alive target request",
+  DURATION_BUCKETS,
+);
+
+export const cookieUpdates = new Counter(
+  "hf_keepalive_cookie_updates_total",
+  "Number of cookies updated from Set-Cookie headers",
+);
+
+export const cookieLastUpdated = new Gauge(
+  "hf_keepalive_cookie_last_updated_timestamp_seconds",
+  "Unix time of the last cookie update",
+);
+
+export const targetUp = new Gauge(
+  "hf_keepalive_up",
+  "Whether the last keep-alive cycle of the target was up or degraded (1) or down (0)",
+);
+
+export const spaceStateGauge = new Gauge(
+  "hf_keepalive_space_state",
+  "Current Space runtime state (1 for the active state)",
+);
+
+export const circuitOpen = new Gauge(
+  "hf_keepalive_circuit_open",
+  "Whether the circuit breaker of the target is open (1) or closed (0)",
+);
+
+export const wakeUps = new Counter(
+  "hf_keepalive_wakeups_total",
+  "Number of attempts to wake up a sleeping Space by result",
+);
+
+export const wakeUpDuration = new Histogram(
+  "hf_keepalive_wakeup_duration_seconds",
+  "Time from triggering a wake-up until the app responded",
+  WAKE_UP_BUCKETS,
+);
+
+const registry: Metric[] = [
+  attemptSuccesses,
+  attemptFailures,
+  spacePageDuration,
+  targetRequestDuration,
+  cookieUpdates,
+  cookieLastUpdated,
+  targetUp,
+  spaceStateGauge,
+  circuitOpen,
+  wakeUps,
+  wakeUpDuration,
+];
+
+/**
+ * 输出所有指标的 Prometheus 文本格式
+ */
+export function renderMetrics(): string {
+  return `${registry.map((metric) => metric.render()).join("\n")}\n`;
+}
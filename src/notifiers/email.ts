@@ -0,0 +1,62 @@
+/**
+ * SMTP 邮件通知
+ */
+
+import { createTransport } from "nodemailer";
+import {
+  type BaseNotifierConfig,
+  type NotificationEvent,
+  type Notifier,
+  renderMessage,
+  renderTemplate,
+} from "./index.js";
+
+export interface EmailNotifierConfig extends BaseNotifierConfig {
+  type: "email";
+  host: string;
+  port?: number;
+  // true 使用 SMTPS（465），false 时按服务器能力使用 STARTTLS
+  secure?: boolean;
+  username?: string;
+  password?: string;
+  from: string;
+  to: string | string[];
+  subjectTemplate?: string;
+}
+
+const DEFAULT_SUBJECT_TEMPLATE = "[HF Keep-Alive] {{target}} {{status}}";
+const DEFAULT_EXPIRY_SUBJECT_TEMPLATE = "[HF Keep-Alive] {{target}} Cookie 即将过期";
+const DEFAULT_WAKE_UP_SUBJECT_TEMPLATE = "[HF Keep-Alive] {{target}} Space 唤醒 {{status}}";
+
+const DEFAULT_SUBJECT_TEMPLATES: Record<NotificationEvent["kind"], string> = {
+  result: DEFAULT_SUBJECT_TEMPLATE,
+  cookieExpiry: DEFAULT_EXPIRY_SUBJECT_TEMPLATE,
+  wakeUp: DEFAULT_WAKE_UP_SUBJECT_TEMPLATE,
+};
+
+export function createEmailNotifier(config: EmailNotifierConfig): Notifier {
+  const transport = createTransport({
+    host: config.host,
+    port: config.port ?? (config.secure ? 465 : 587),
+    secure: config.secure ?? false,
+    auth: config.username
+      ? { user: config.username, pass: config.password }
+      : undefined,
+  });
+
+  return {
+    type: "email",
+    mode: config.on ?? "transition",
+    async send(event) {
+      await transport.sendMail({
+        from: config.from,
+        to: config.to,
+        subject: renderTemplate(
+          config.subjectTemplate ?? DEFAULT_SUBJECT_TEMPLATES[event.kind],
+          event,
+        ),
+        text: renderMessage(config.template, event),
+      });
+    },
+  };
+}
@@ -0,0 +1,35 @@
+/**
+ * 通知器共用的 HTTP 请求
+ */
+
+import { type Dispatcher, request } from "undici";
+
+/**
+ * 发送 HTTP 请求，非 2xx 响应抛出异常
+ */
+export async function sendHttp(
+  url: string,
+  options: {
+    method?: "GET" | "POST" | "PUT";
+    headers?: Record<string, string>;
+    body?: string;
+    // 目标共用的 Dispatcher（代理、CA 证书与连接池）
+    dispatcher?: Dispatcher;
+  },
+): Promise<void> {
+  const response = await request(url, {
+    method: options.method ?? "POST",
+    headers: options.headers,
+    body: options.body,
+    dispatcher: options.dispatcher,
+    headersTimeout: 20000,
+    bodyTimeout: 20000,
+  });
+  const responseBody = await response.body.text();
+
+  if (response.statusCode < 200 || response.statusCode >= 300) {
+    throw new Error(
+      `HTTP ${response.statusCode} ${responseBody.substring(0, 200)}`,
+    );
+  }
+}
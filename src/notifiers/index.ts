@@ -0,0 +1,258 @@
+/**
+ * 通知子系统
+ *
+ * 保活结果统一交给通知器（Notifier）发送。每个通知器有两种触发模式：
+ * - always：每次保活都发送，适合 Uptime Kuma 这类依赖心跳的推送监控
+ * - transition：仅在 up → down、down → up 时发送，适合告警
+ *
+ * 支持的通知器：Uptime Kuma、通用 JSON Webhook、Telegram Bot、ntfy、Gotify、SMTP 邮件。
+ */
+
+import type { Dispatcher } from "undici";
+import type { KeepAliveResult, Target } from "../target.js";
+import { sleep } from "../utils.js";
+import { createEmailNotifier, type EmailNotifierConfig } from "./email.js";
+import {
+  createGotifyNotifier,
+  createNtfyNotifier,
+  type GotifyNotifierConfig,
+  type NtfyNotifierConfig,
+} from "./ntfy.js";
+import {
+  createTelegramNotifier,
+  type TelegramNotifierConfig,
+} from "./telegram.js";
+import {
+  createUptimeKumaNotifier,
+  type UptimeKumaNotifierConfig,
+} from "./uptime-kuma.js";
+import { createWebhookNotifier, type WebhookNotifierConfig } from "./webhook.js";
+
+/**
+ * 一次通知的内容
+ */
+export interface NotificationEvent {
+  // result：保活结果；cookieExpiry：Cookie 即将过期；wakeUp：唤醒休眠的 Space（status 为 up 表示成功）
+  kind: "result" | "cookieExpiry" | "wakeUp";
+  target: string;
+  status: KeepAliveResult;
+  // 保活结果事件中为上一次 up 或 down 的结果
+  previousStatus: KeepAliveResult | null;
+  // 是否为状态变化
+  isTransition: boolean;
+  message: string;
+  ping?: number;
+  timestamp: string;
+  spaceUrl: string;
+  targetUrl: string;
+}
+
+export type NotifyMode = "always" | "transition";
+
+/**
+ * 所有通知器共有的配置
+ */
+export interface BaseNotifierConfig {
+  enabled?: boolean;
+  on?: NotifyMode;
+  // 消息模板，支持 {{kind}} {{target}} {{status}} {{previousStatus}} {{message}} {{ping}} {{timestamp}} {{emoji}} 等变量
+  template?: string;
+}
+
+export type NotifierConfig =
+  | UptimeKumaNotifierConfig
+  | WebhookNotifierConfig
+  | TelegramNotifierConfig
+  | NtfyNotifierConfig
+  | GotifyNotifierConfig
+  | EmailNotifierConfig;
+
+export interface Notifier {
+  type: NotifierConfig["type"];
+  mode: NotifyMode;
+  send(event: NotificationEvent): Promise<void>;
+}
+
+export const DEFAULT_TEMPLATE =
+  "{{emoji}} [{{target}}] {{previousStatus}} → {{status}}：{{message}}";
+// Cookie 过期提醒与唤醒事件没有状态变化，默认只显示消息
+const DEFAULT_EVENT_TEMPLATE = "{{emoji}} [{{target}}] {{message}}";
+
+// 尚未完成的通知发送，进程退出前等待它们完成
+const pending = new Set<Promise<unknown>>();
+
+const STATUS_EMOJI: Record<KeepAliveResult, string> = {
+  up: "✅",
+  degraded: "⏳",
+  down: "❌",
+};
+
+/**
+ * 事件对应的 emoji
+ */
+function formatEmoji(event: NotificationEvent): string {
+  switch (event.kind) {
+    case "cookieExpiry":
+      return "⏰";
+    case "wakeUp":
+      return event.status === "up" ? "☀️" : "😴";
+    default:
+      return STATUS_EMOJI[event.status];
+  }
+}
+
+/**
+ * 渲染消息模板，未知变量替换为空字符串
+ */
+export function renderTemplate(
+  template: string,
+  event: NotificationEvent,
+): string {
+  const variables: Record<string, string> = {
+    target: event.target,
+    status: event.status,
+    previousStatus: event.previousStatus ?? "unknown",
+    message: event.message,
+    ping: event.ping !== undefined ? String(event.ping) : "",
+    timestamp: event.timestamp,
+    spaceUrl: event.spaceUrl,
+    targetUrl: event.targetUrl,
+    kind: event.kind,
+    emoji: formatEmoji(event),
+  };
+  return template.replace(
+    /\{\{\s*(\w+)\s*\}\}/g,
+    (_, key: string) => variables[key] ?? "",
+  );
+}
+
+/**
+ * 按通知器配置的模板渲染消息，未配置模板时按事件类型使用默认模板
+ */
+export function renderMessage(
+  template: string | undefined,
+  event: NotificationEvent,
+): string {
+  const fallback = event.kind === "result"
+    ? DEFAULT_TEMPLATE
+    : DEFAULT_EVENT_TEMPLATE;
+  return renderTemplate(template ?? fallback, event);
+}
+
+/**
+ * 根据配置创建通知器
+ * @param dispatcher 目标共用的 Dispatcher，HTTP 类通知器经由它发送（邮件走 SMTP，不使用）
+ */
+export function createNotifier(
+  config: NotifierConfig,
+  dispatcher: Dispatcher,
+): Notifier {
+  switch (config.type) {
+    case "uptimeKuma":
+      return createUptimeKumaNotifier(config, dispatcher);
+    case "webhook":
+      return createWebhookNotifier(config, dispatcher);
+    case "telegram":
+      return createTelegramNotifier(config, dispatcher);
+    case "ntfy":
+      return createNtfyNotifier(config, dispatcher);
+    case "gotify":
+      return createGotifyNotifier(config, dispatcher);
+    case "email":
+      return createEmailNotifier(config);
+  }
+}
+
+// 各通知器的必填字段
+const REQUIRED_FIELDS: Record<NotifierConfig["type"], string[]> = {
+  uptimeKuma: ["pushUrl"],
+  webhook: ["url"],
+  telegram: ["botToken", "chatId"],
+  ntfy: ["url"],
+  gotify: ["url", "token"],
+  email: ["host", "from", "to"],
+};
+
+/**
+ * 校验通知器配置
+ * @returns 错误说明列表，配置有效时为空数组
+ */
+export function validateNotifiers(notifiers: unknown): string[] {
+  if (!Array.isArray(notifiers)) {
+    return ["notifiers 必须是数组"];
+  }
+
+  const errors: string[] = [];
+  notifiers.forEach((item, index) => {
+    const prefix = `notifiers[${index}]`;
+    const config = item as Record<string, unknown>;
+    const type = config?.type as NotifierConfig["type"];
+
+    // 不能用 in：原型链上的 toString、constructor 等也会被当成有效类型
+    if (!config || !Object.hasOwn(REQUIRED_FIELDS, type)) {
+      errors.push(`${prefix}.type 无效：${JSON.stringify(config?.type)}`);
+      return;
+    }
+
+    for (const field of REQUIRED_FIELDS[type]) {
+      const value = config[field];
+      if (value === undefined || value === "" || value === null) {
+        errors.push(`${prefix}.${field} 未设置`);
+      }
+    }
+
+    if (
+      config.on !== undefined && config.on !== "always" &&
+      config.on !== "transition"
+    ) {
+      errors.push(`${prefix}.on 必须是 "always" 或 "transition"`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * 将结果发送给目标的所有通知器
+ * 单个通知器失败只记录日志，不影响其他通知器和保活本身
+ */
+export async function dispatchNotification(
+  target: Target,
+  event: NotificationEvent,
+): Promise<void> {
+  const notifiers = target.notifiers.filter((notifier) =>
+    notifier.mode === "always" || event.isTransition
+  );
+
+  const sending = Promise.allSettled(
+    notifiers.map((notifier) => notifier.send(event)),
+  );
+  pending.add(sending);
+  const results = await sending.finally(() => pending.delete(sending));
+
+  results.forEach((result, index) => {
+    if (result.status === "rejected") {
+      const reason = result.reason instanceof Error
+        ? result.reason.message
+        : String(result.reason);
+      target.log.warn(`⚠️ ${notifiers[index].type} 通知发送失败：${reason}`, {
+        notifier: notifiers[index].type,
+      });
+    }
+  });
+}
+
+/**
+ * 等待所有尚未完成的通知发送结束
+ * @returns 是否在超时前全部结束
+ */
+export async function flushNotifications(timeout: number): Promise<boolean> {
+  if (pending.size === 0) return true;
+
+  const timer = new AbortController();
+  const finished = await Promise.race([
+    Promise.all(pending).then(() => true),
+    sleep(timeout, timer.signal).then(() => false),
+  ]);
+  timer.abort();
+  return finished;
+}
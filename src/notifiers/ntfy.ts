@@ -0,0 +1,105 @@
+/**
+ * ntfy 与 Gotify 推送
+ */
+
+import type { Dispatcher } from "undici";
+import { sendHttp } from "./http.js";
+import {
+  type BaseNotifierConfig,
+  type NotificationEvent,
+  type Notifier,
+  renderMessage,
+} from "./index.js";
+
+export interface NtfyNotifierConfig extends BaseNotifierConfig {
+  type: "ntfy";
+  // 包含主题的完整地址，例如 https://ntfy.sh/my-topic
+  url: string;
+  token?: string;
+  priority?: number;
+}
+
+export interface GotifyNotifierConfig extends BaseNotifierConfig {
+  type: "gotify";
+  // Gotify 服务器地址，例如 https://gotify.example.com
+  url: string;
+  token: string;
+  priority?: number;
+}
+
+/**
+ * 通知标题
+ */
+function formatTitle(event: NotificationEvent): string {
+  if (event.kind === "cookieExpiry") {
+    return `[${event.target}] Cookie 即将过期`;
+  }
+  if (event.kind === "wakeUp") {
+    return `[${event.target}] Space 唤醒${event.status === "up" ? "成功" : "失败"}`;
+  }
+  return `[${event.target}] ${event.status.toUpperCase()}`;
+}
+
+/**
+ * ntfy 的标签（显示为 emoji）
+ */
+function formatTags(event: NotificationEvent): string {
+  if (event.kind === "cookieExpiry") return "alarm_clock";
+  if (event.kind === "wakeUp") {
+    return event.status === "up" ? "sunny" : "sleeping";
+  }
+  return event.status === "down" ? "rotating_light" : "white_check_mark";
+}
+
+export function createNtfyNotifier(
+  config: NtfyNotifierConfig,
+  dispatcher: Dispatcher,
+): Notifier {
+  return {
+    type: "ntfy",
+    mode: config.on ?? "transition",
+    async send(event) {
+      const headers: Record<string, string> = {
+        // HTTP 头只允许 ASCII，中文标题需要 RFC 2047 编码
+        "Title": `=?UTF-8?B?${Buffer.from(formatTitle(event)).toString("base64")}?=`,
+        "Tags": formatTags(event),
+      };
+      if (config.priority !== undefined) {
+        headers["Priority"] = String(config.priority);
+      }
+      if (config.token) {
+        headers["Authorization"] = `Bearer ${config.token}`;
+      }
+
+      await sendHttp(config.url, {
+        dispatcher,
+        headers,
+        body: renderMessage(config.template, event),
+      });
+    },
+  };
+}
+
+export function createGotifyNotifier(
+  config: GotifyNotifierConfig,
+  dispatcher: Dispatcher,
+): Notifier {
+  return {
+    type: "gotify",
+    mode: config.on ?? "transition",
+    async send(event) {
+      const url = new URL("/message", config.url);
+      url.searchParams.set("token", config.token);
+
+      await sendHttp(url.toString(), {
+        dispatcher,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          title: formatTitle(event),
+          message: renderMessage(config.template, event),
+          priority: config.priority ?? (event.status === "down" ? 8 : 4),
+        }),
+      });
+    },
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * Telegram Bot 通知
+ */
+
+import type { Dispatcher } from "undici";
+import { sendHttp } from "./http.js";
+import {
+  type BaseNotifierConfig,
+  type Notifier,
+  renderMessage,
+} from "./index.js";
+
+export interface TelegramNotifierConfig extends BaseNotifierConfig {
+  type: "telegram";
+  botToken: string;
+  chatId: string | number;
+  // 自建 Bot API 服务器时可修改
+  apiBaseUrl?: string;
+}
+
+export function createTelegramNotifier(
+  config: TelegramNotifierConfig,
+  dispatcher: Dispatcher,
+): Notifier {
+  const apiBaseUrl = config.apiBaseUrl ?? "https://api.telegram.org";
+
+  return {
+    type: "telegram",
+    mode: config.on ?? "transition",
+    async send(event) {
+      await sendHttp(`${apiBaseUrl}/bot${config.botToken}/sendMessage`, {
+        dispatcher,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          chat_id: config.chatId,
+          text: renderMessage(config.template, event),
+          disable_web_page_preview: true,
+        }),
+      });
+    },
+  };
+}
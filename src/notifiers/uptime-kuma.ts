@@ -0,0 +1,85 @@
+/**
+ * Uptime Kuma 推送
+ *
+ * Uptime Kuma 的 Push 监控依赖心跳，因此默认每次保活都推送（on: "always"）
+ */
+
+import { type Dispatcher, request } from "undici";
+import { logger } from "../logger.js";
+import type { BaseNotifierConfig, NotificationEvent, Notifier } from "./index.js";
+
+export interface UptimeKumaNotifierConfig extends BaseNotifierConfig {
+  type: "uptimeKuma";
+  pushUrl: string;
+}
+
+/**
+ * 推送状态到 Uptime Kuma
+ * degraded 推送为 up，并在消息前加上 [degraded]
+ */
+async function pushToUptimeKuma(
+  config: UptimeKumaNotifierConfig,
+  event: NotificationEvent,
+  dispatcher: Dispatcher,
+): Promise<void> {
+  const { target: name, ping } = event;
+  const status = event.status === "down" ? "down" : "up";
+  const msg = event.status === "degraded"
+    ? `[degraded] ${event.message}`
+    : event.message;
+  const log = logger.child({ target: name, notifier: "uptimeKuma" });
+
+  try {
+    const pushUrl = new URL(config.pushUrl);
+    pushUrl.searchParams.set("status", status);
+    pushUrl.searchParams.set("msg", msg);
+
+    if (ping !== undefined) {
+      pushUrl.searchParams.set("ping", ping.toString());
+    }
+
+    log.info(`📊 推送到 Uptime Kuma：${status}`);
+
+    const response = await request(pushUrl.toString(), {
+      method: "GET",
+      dispatcher,
+      headersTimeout: 20000,
+      bodyTimeout: 20000,
+    });
+
+    const responseBody = await response.body.text();
+
+    if (response.statusCode === 200) {
+      const result = JSON.parse(responseBody);
+      if (result.ok) {
+        log.info("✅ Uptime Kuma 推送成功");
+      } else {
+        log.warn(`⚠️ Uptime Kuma 推送失败：${result.msg || "未知错误"}`);
+      }
+    } else {
+      log.warn(`⚠️ Uptime Kuma 推送失败：HTTP ${response.statusCode}`);
+    }
+  } catch (error: unknown) {
+    if (error instanceof Error) {
+      log.warn(`⚠️ Uptime Kuma 推送异常：${error.message}`);
+    } else {
+      log.warn(`⚠️ Uptime Kuma 推送异常：${String(error)}`);
+    }
+  }
+}
+
+export function createUptimeKumaNotifier(
+  config: UptimeKumaNotifierConfig,
+  dispatcher: Dispatcher,
+): Notifier {
+  return {
+    type: "uptimeKuma",
+    mode: config.on ?? "always",
+    // Push 监控只关心保活结果，其他通知不作为心跳推送
+    send: async (event) => {
+      if (event.kind === "result") {
+        await pushToUptimeKuma(config, event, dispatcher);
+      }
+    },
+  };
+}
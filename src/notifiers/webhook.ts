@@ -0,0 +1,44 @@
+/**
+ * 通用 JSON Webhook
+ *
+ * 请求体为通知事件的 JSON，并附带按模板渲染的 text 字段
+ */
+
+import type { Dispatcher } from "undici";
+import { sendHttp } from "./http.js";
+import {
+  type BaseNotifierConfig,
+  type Notifier,
+  renderMessage,
+} from "./index.js";
+
+export interface WebhookNotifierConfig extends BaseNotifierConfig {
+  type: "webhook";
+  url: string;
+  method?: "POST" | "PUT";
+  headers?: Record<string, string>;
+}
+
+export function createWebhookNotifier(
+  config: WebhookNotifierConfig,
+  dispatcher: Dispatcher,
+): Notifier {
+  return {
+    type: "webhook",
+    mode: config.on ?? "transition",
+    async send(event) {
+      await sendHttp(config.url, {
+        dispatcher,
+        method: config.method ?? "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...config.headers,
+        },
+        body: JSON.stringify({
+          ...event,
+          text: renderMessage(config.template, event),
+        }),
+      });
+    },
+  };
+}
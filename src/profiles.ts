@@ -0,0 +1,183 @@
+/**
+ * 请求配置（profile）
+ *
+ * 在配置文件顶层的 profiles 中按名称定义，目标通过 profile 字段选用，未指定时使用 default：
+ * - userAgent、headers：Space 页面与保活请求都会带上
+ * - method、body：仅用于保活请求，支持 GET / HEAD / POST；body 为对象或数组时按 JSON 发送
+ * - headersTimeout、bodyTimeout：等待响应头 / 响应体的超时（毫秒）
+ * - maxBodySize：最多读取的响应体字节数，超出部分丢弃，0 表示不限制
+ *
+ * 自定义的 profile 只需写出与 default 不同的字段（headers 逐项合并）；
+ * 定义名为 default 的 profile 可修改所有目标的默认值。
+ */
+
+export type RequestMethod = "GET" | "HEAD" | "POST";
+
+/**
+ * 补齐默认值后的请求配置
+ */
+export interface RequestProfile {
+  method: RequestMethod;
+  userAgent: string;
+  headers: Record<string, string>;
+  // 序列化后的请求体，仅 POST 使用
+  body: string | null;
+  headersTimeout: number;
+  bodyTimeout: number;
+  maxBodySize: number;
+}
+
+export const DEFAULT_PROFILE_NAME = "default";
+
+const DEFAULT_PROFILE: RequestProfile = {
+  method: "GET",
+  userAgent:
+    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+  headers: {
+    "Accept":
+      "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8",
+    "Accept-Language": "zh-CN,zh;q=0.9,en;q=0.8",
+  },
+  body: null,
+  headersTimeout: 30000,
+  bodyTimeout: 30000,
+  maxBodySize: 0,
+};
+
+const METHODS = new Set<string>(["GET", "HEAD", "POST"]);
+
+// profile 中允许的字段
+const PROFILE_FIELDS = new Set([
+  "method",
+  "userAgent",
+  "headers",
+  "body",
+  "headersTimeout",
+  "bodyTimeout",
+  "maxBodySize",
+]);
+
+/**
+ * 校验 profiles 配置
+ * @returns 错误说明列表，配置有效时为空数组
+ */
+export function validateProfiles(profiles: unknown): string[] {
+  if (profiles === undefined) return [];
+  if (!profiles || typeof profiles !== "object" || Array.isArray(profiles)) {
+    return ["profiles 必须是对象，键为 profile 名称"];
+  }
+
+  const errors: string[] = [];
+  for (const [name, item] of Object.entries(profiles)) {
+    const prefix = `profiles.${name}`;
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      errors.push(`${prefix} 必须是对象`);
+      continue;
+    }
+    const profile = item as Record<string, unknown>;
+
+    for (const field of Object.keys(profile)) {
+      if (!PROFILE_FIELDS.has(field)) {
+        errors.push(`${prefix}.${field} 是未知字段`);
+      }
+    }
+
+    if (
+      profile.method !== undefined &&
+      (typeof profile.method !== "string" ||
+        !METHODS.has(profile.method.toUpperCase()))
+    ) {
+      errors.push(`${prefix}.method 必须是 GET、HEAD 或 POST`);
+    }
+    if (profile.userAgent !== undefined && typeof profile.userAgent !== "string") {
+      errors.push(`${prefix}.userAgent 必须是字符串`);
+    }
+    if (profile.headers !== undefined) {
+      const headers = profile.headers as Record<string, unknown>;
+      if (!headers || typeof headers !== "object" || Array.isArray(headers)) {
+        errors.push(`${prefix}.headers 必须是对象`);
+      } else {
+        for (const [key, value] of Object.entries(headers)) {
+          if (typeof value !== "string") {
+            errors.push(`${prefix}.headers.${key} 必须是字符串`);
+          }
+        }
+      }
+    }
+    if (
+      profile.body !== undefined &&
+      String(profile.method ?? "GET").toUpperCase() !== "POST"
+    ) {
+      errors.push(`${prefix}.body 只能用于 POST`);
+    }
+
+    for (const field of ["headersTimeout", "bodyTimeout", "maxBodySize"]) {
+      const value = profile[field];
+      if (value === undefined) continue;
+      const min = field === "maxBodySize" ? 0 : 1;
+      if (!Number.isInteger(value) || (value as number) < min) {
+        errors.push(`${prefix}.${field} 必须是不小于 ${min} 的整数`);
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * 用自定义字段覆盖 profile，请求头逐项合并
+ */
+function mergeProfile(
+  base: Record<string, unknown>,
+  custom: Record<string, unknown> | undefined,
+): Record<string, unknown> {
+  if (!custom) return base;
+  return {
+    ...base,
+    ...custom,
+    headers: {
+      ...(base.headers as Record<string, string>),
+      ...(custom.headers as Record<string, string> | undefined),
+    },
+  };
+}
+
+/**
+ * 按名称取出 profile 并补齐默认值（profiles 需已通过 validateProfiles）
+ * @returns 未定义该名称时返回 null
+ */
+export function resolveProfile(
+  profiles: Record<string, Record<string, unknown>> | undefined,
+  name: string,
+): RequestProfile | null {
+  if (name !== DEFAULT_PROFILE_NAME && !profiles?.[name]) return null;
+  const profile = mergeProfile(
+    mergeProfile({ ...DEFAULT_PROFILE }, profiles?.[DEFAULT_PROFILE_NAME]),
+    name === DEFAULT_PROFILE_NAME ? undefined : profiles?.[name],
+  );
+
+  const method = String(profile.method).toUpperCase() as RequestMethod;
+  const body = profile.body;
+  const headers = { ...(profile.headers as Record<string, string>) };
+  const serializedBody = method !== "POST" || body === undefined || body === null
+    ? null
+    : typeof body === "string"
+    ? body
+    : JSON.stringify(body);
+  // 对象形式的请求体按 JSON 发送
+  if (
+    serializedBody !== null && typeof body !== "string" &&
+    !Object.keys(headers).some((key) => key.toLowerCase() === "content-type")
+  ) {
+    headers["Content-Type"] = "application/json";
+  }
+
+  return {
+    method,
+    userAgent: profile.userAgent as string,
+    headers,
+    body: serializedBody,
+    headersTimeout: profile.headersTimeout as number,
+    bodyTimeout: profile.bodyTimeout as number,
+    maxBodySize: profile.maxBodySize as number,
+  };
+}
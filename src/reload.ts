@@ -0,0 +1,236 @@
+/**
+ * 配置热重载
+ *
+ * 监听 --config / CONFIG_FILE 指定的配置文件，并在收到 SIGHUP 时重新加载配置：
+ * - 新配置先完整校验，无效时记录错误并继续使用原配置
+ * - 按名称匹配目标：已有目标更新配置并按新间隔重新调度，新增的目标开始调度，
+ *   删除的目标停止调度并取消进行中的一轮，收尾后再关闭连接池
+ * - 单个目标应用失败（如 CA 证书无法读取、Cookie 无法解析）时记录错误：
+ *   已有目标保留原配置，新增目标跳过，不影响其余目标，也不会退出进程
+ * - 配置中改动的 Cookie 合并进 Cookie Jar，运行中刷新过的 Cookie 保留
+ * - 代理、CA 证书或连接池设置变化时换用新的 Dispatcher，旧的在进行中的请求结束后关闭
+ * - 运行历史文件与保留时长立即生效
+ * - 状态服务的监听地址与端口需要重启后才能生效
+ */
+
+import { unwatchFile, watchFile } from "fs";
+import type { Dispatcher } from "undici";
+import {
+  type Config,
+  ConfigError,
+  type HttpServerConfig,
+  type TargetConfig,
+} from "./config.js";
+import { importCookies, mergeConfigCookies } from "./cookies.js";
+import { createDispatcher } from "./dispatcher.js";
+import { configureHistory } from "./history.js";
+import { logger } from "./logger.js";
+import { cancelTarget, rescheduleTarget, startTarget } from "./scheduler.js";
+import { createNotifiers, createTarget, type Target } from "./target.js";
+
+// 轮询配置文件修改时间的间隔（毫秒），对 Docker 挂载和编辑器的原子替换都有效
+const WATCH_INTERVAL = 2000;
+
+// 这些字段变化后需要重新向 Hub API 获取 Space JWT
+const HUB_FIELDS: (keyof TargetConfig)[] = ["hfToken", "hubEndpoint", "spaceUrl"];
+
+// 这些字段变化后需要重新创建 Dispatcher
+const NETWORK_FIELDS: (keyof TargetConfig)[] = [
+  "proxy",
+  "noProxy",
+  "caFile",
+  "maxConnections",
+  "keepAliveTimeout",
+];
+
+/**
+ * 列出两份目标配置中取值不同的字段
+ */
+function diffConfig(previous: TargetConfig, next: TargetConfig): string[] {
+  return (Object.keys(next) as (keyof TargetConfig)[]).filter((key) =>
+    JSON.stringify(previous[key]) !== JSON.stringify(next[key])
+  );
+}
+
+/**
+ * 关闭不再使用的 Dispatcher，失败时只记录警告
+ */
+function closeDispatcher(target: Target, dispatcher: Dispatcher): void {
+  dispatcher.close().catch((error: unknown) =>
+    target.log.warn(
+      `⚠️ 关闭旧连接池失败：${error instanceof Error ? error.message : String(error)}`,
+    )
+  );
+}
+
+/**
+ * 将新配置应用到已有目标
+ * 先创建新的 Dispatcher 与通知器，创建失败时抛出，目标保持原配置不变
+ */
+function updateTarget(target: Target, config: TargetConfig): void {
+  const previous = target.config;
+  const changed = diffConfig(previous, config);
+  if (changed.length === 0) return;
+
+  const networkChanged = NETWORK_FIELDS.some((key) => changed.includes(key));
+  const dispatcher = networkChanged ? createDispatcher(config) : target.dispatcher;
+  let notifiers: Target["notifiers"];
+  try {
+    notifiers = createNotifiers(config, dispatcher);
+  } catch (error) {
+    if (networkChanged) closeDispatcher(target, dispatcher);
+    throw error;
+  }
+
+  target.config = config;
+  if (networkChanged) {
+    closeDispatcher(target, target.dispatcher);
+    target.dispatcher = dispatcher;
+  }
+  target.notifiers = notifiers;
+  if (HUB_FIELDS.some((key) => changed.includes(key))) {
+    target.hubCredentials = null;
+  }
+  // 地址、Cookie 或请求方式都可能影响应用地址，配置变化后重新获取
+  target.iframeCache = null;
+  mergeConfigCookies(target, previous);
+
+  // 熔断打开时保留放宽后的间隔，恢复后自然回到新间隔
+  if (target.status.circuitBreaker.state === "closed") {
+    target.status.circuitBreaker.currentInterval = config.interval;
+  }
+  rescheduleTarget(target);
+
+  // 只记录字段名，避免泄露 Cookie 和令牌
+  target.log.info(`🔄 配置已更新：${changed.join(", ")}`);
+}
+
+/**
+ * 将新配置应用到运行中的目标列表（原地修改，状态服务共享同一个数组）
+ */
+function applyConfig(
+  targets: Target[],
+  http: HttpServerConfig,
+  config: Config,
+): void {
+  const nextByName = new Map(
+    config.targets.map((targetConfig) => [targetConfig.name, targetConfig]),
+  );
+
+  // 停止已删除的目标，取消进行中的一轮，收尾后再关闭连接池
+  for (const target of [...targets]) {
+    if (nextByName.has(target.config.name)) continue;
+    targets.splice(targets.indexOf(target), 1);
+    target.log.info("🗑️ 目标已从配置中删除，停止保活");
+    void cancelTarget(target).then(() =>
+      closeDispatcher(target, target.dispatcher)
+    );
+  }
+
+  for (const targetConfig of config.targets) {
+    const existing = targets.find((target) =>
+      target.config.name === targetConfig.name
+    );
+    if (existing) {
+      try {
+        updateTarget(existing, targetConfig);
+      } catch (error) {
+        existing.log.error(
+          `❌ 新配置应用失败，继续使用原配置：${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+      continue;
+    }
+
+    // 新增的目标无法创建或 Cookie 无法解析时跳过，不影响其余目标
+    let target: Target;
+    try {
+      target = createTarget(targetConfig);
+    } catch (error) {
+      logger.child({ target: targetConfig.name }).error(
+        `❌ 创建目标失败，跳过新增的目标：${error instanceof Error ? error.message : String(error)}`,
+      );
+      continue;
+    }
+    try {
+      importCookies(target);
+    } catch (error) {
+      target.log.error(
+        `❌ Cookie解析失败，跳过新增的目标：${error instanceof Error ? error.message : String(error)}`,
+      );
+      closeDispatcher(target, target.dispatcher);
+      continue;
+    }
+    targets.push(target);
+    target.log.info("➕ 新增目标，开始保活");
+    startTarget(target);
+  }
+
+  void configureHistory(config.history);
+
+  if (JSON.stringify(http) !== JSON.stringify(config.http)) {
+    logger.warn("⚠️ 状态服务配置已变更，需要重启后生效");
+  }
+}
+
+/**
+ * 重新加载配置，无效时保留原配置
+ */
+function reload(
+  targets: Target[],
+  http: HttpServerConfig,
+  load: () => Config,
+): void {
+  let config: Config;
+  try {
+    config = load();
+  } catch (error) {
+    logger.error("❌ 新配置无效，继续使用原配置");
+    const errors = error instanceof ConfigError
+      ? error.errors
+      : [error instanceof Error ? error.message : String(error)];
+    errors.forEach((message) => logger.error(`   ${message}`));
+    return;
+  }
+
+  applyConfig(targets, http, config);
+  logger.info(`✅ 配置已重新加载（共 ${config.targets.length} 个目标）`);
+}
+
+/**
+ * 监听配置文件与 SIGHUP，自动重新加载配置
+ * @param targets 运行中的目标列表，重新加载时原地更新
+ * @param http 启动时的状态服务配置
+ * @param configPath 要监听的配置文件，为 null 时只响应 SIGHUP
+ * @param load 加载并校验配置，无效时抛出 ConfigError
+ * @returns 停止监听的函数
+ */
+export function watchConfig(
+  targets: Target[],
+  http: HttpServerConfig,
+  configPath: string | null,
+  load: () => Config,
+): () => void {
+  const onSignal = (): void => {
+    logger.info("📨 收到 SIGHUP，重新加载配置");
+    reload(targets, http, load);
+  };
+  process.on("SIGHUP", onSignal);
+
+  const onChange = (
+    current: { mtimeMs: number },
+    previous: { mtimeMs: number },
+  ): void => {
+    if (current.mtimeMs === previous.mtimeMs) return;
+    logger.info(`📝 配置文件已修改：${configPath}，重新加载配置`);
+    reload(targets, http, load);
+  };
+  if (configPath) {
+    watchFile(configPath, { interval: WATCH_INTERVAL }, onChange);
+  }
+
+  return () => {
+    process.off("SIGHUP", onSignal);
+    if (configPath) unwatchFile(configPath, onChange);
+  };
+}
@@ -0,0 +1,224 @@
+/**
+ * 保活调度
+ *
+ * 每个目标按自己的间隔或 cron 表达式独立调度：一轮结束后再安排下一轮，同一目标的两轮不会重叠，
+ * 熔断打开时使用放宽后的间隔。下一轮会避开 activeHours 之外与 quietHours 之内的时间，
+ * 并按 scheduleJitter 随机推迟。手动触发（/trigger）同样经由这里，正在执行时不会重复启动。
+ * 配置热重载时可以按新间隔重新调度，或停止已删除的目标并取消其进行中的一轮。
+ * 进程退出时停止调度，等待进行中的一轮结束（不再重试），超时后取消进行中的请求。
+ */
+
+import { createCalendar, getNextRunTime } from "./calendar.js";
+import { keepAlive } from "./keep-alive.js";
+import type { Target } from "./target.js";
+import { sleep } from "./utils.js";
+
+interface Schedule {
+  timer: NodeJS.Timeout | null;
+  // 正在执行的一轮，空闲时为 null
+  running: Promise<void> | null;
+  // 用于取消正在执行的一轮
+  controller: AbortController | null;
+  stopped: boolean;
+}
+
+// 取消请求后等待各轮收尾的时间（毫秒）
+const ABORT_GRACE = 2000;
+
+// setTimeout 支持的最长延迟（约 24.8 天），更久的等待分段进行
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+const schedules = new WeakMap<Target, Schedule>();
+
+// 进程退出时中止：正在执行的各轮不再重试
+const draining = new AbortController();
+
+// 已删除目标中被取消、尚未收尾的各轮，进程退出时同样等待
+const cancelling = new Set<Promise<void>>();
+
+/**
+ * 执行一轮保活，结束后安排下一轮
+ */
+async function run(target: Target, schedule: Schedule): Promise<void> {
+  if (schedule.timer) clearTimeout(schedule.timer);
+  schedule.timer = null;
+  schedule.controller = new AbortController();
+  schedule.running = keepAlive(target, {
+    signal: schedule.controller.signal,
+    stopRetry: draining.signal,
+  }).catch((error) => {
+    target.log.error(`❌ 保活异常：${error}`);
+  });
+
+  try {
+    await schedule.running;
+  } finally {
+    schedule.running = null;
+    schedule.controller = null;
+  }
+  if (!schedule.stopped) {
+    scheduleNext(target, schedule, Date.now());
+  }
+}
+
+/**
+ * 按 schedule / interval、时间窗口与随机延迟计算下一轮的时间
+ * @param from 起算时间
+ * @param immediate 固定间隔模式下是否从 from 起立即执行（启动时）
+ * @returns 找不到满足条件的时间时返回 null
+ */
+function planNextRun(
+  target: Target,
+  from: number,
+  immediate: boolean,
+): number | null {
+  const { config } = target;
+  const calendar = createCalendar(config);
+  const { currentInterval } = target.status.circuitBreaker;
+  const interval = immediate ? 0 : currentInterval;
+  const next = getNextRunTime(calendar, from, {
+    interval,
+    delay: Math.max(0, currentInterval - config.interval),
+  });
+  if (next === null) return null;
+
+  if (!calendar.usesCron && next > from + interval) {
+    target.log.info(
+      `🌙 当前不在保活时间窗口内，下一轮保活：${calendar.format(next)}（${calendar.timezone}）`,
+    );
+  }
+
+  // 随机推迟后落在时间窗口外时不推迟
+  const jittered = next + Math.round(Math.random() * config.scheduleJitter);
+  return calendar.isAllowed(jittered) ? jittered : next;
+}
+
+/**
+ * 设置定时器，到时执行一轮保活
+ */
+function setRunTimer(target: Target, schedule: Schedule, runAt: number): void {
+  const delay = runAt - Date.now();
+  schedule.timer = delay > MAX_TIMER_DELAY
+    ? setTimeout(() => setRunTimer(target, schedule, runAt), MAX_TIMER_DELAY)
+    : setTimeout(() => void run(target, schedule), Math.max(0, delay));
+}
+
+/**
+ * 安排下一轮
+ * @param from 起算时间
+ * @param immediate 固定间隔模式下是否立即执行（启动时）
+ */
+function scheduleNext(
+  target: Target,
+  schedule: Schedule,
+  from: number,
+  immediate = false,
+): void {
+  if (schedule.timer) clearTimeout(schedule.timer);
+  schedule.timer = null;
+
+  const runAt = planNextRun(target, from, immediate);
+  if (runAt === null) {
+    target.status.nextRunAt = null;
+    target.log.error("❌ 找不到符合 schedule 与时间窗口的下一轮保活时间，停止调度");
+    return;
+  }
+  target.status.nextRunAt = Math.max(runAt, Date.now());
+  setRunTimer(target, schedule, runAt);
+}
+
+/**
+ * 开始调度目标：固定间隔模式下立即执行一次（不在时间窗口内时等到窗口开始），之后按计划定时执行
+ */
+export function startTarget(target: Target): void {
+  const schedule: Schedule = {
+    timer: null,
+    running: null,
+    controller: null,
+    stopped: false,
+  };
+  schedules.set(target, schedule);
+  scheduleNext(target, schedule, Date.now(), true);
+}
+
+/**
+ * 立即执行一轮保活，下一轮从本轮结束时起算
+ * @returns 正在执行或已停止调度时返回 false，不会重复启动
+ */
+export function triggerTarget(target: Target): boolean {
+  const schedule = schedules.get(target);
+  if (!schedule || schedule.stopped || schedule.running) return false;
+  void run(target, schedule);
+  return true;
+}
+
+/**
+ * 按目标当前的间隔或 cron 表达式重新安排下一轮（从上一轮开始时起算）
+ * 正在执行时不做处理，本轮结束后自然会使用新间隔
+ */
+export function rescheduleTarget(target: Target): void {
+  const schedule = schedules.get(target);
+  if (!schedule || schedule.stopped || schedule.running) return;
+  scheduleNext(target, schedule, target.status.lastRunAt ?? Date.now());
+}
+
+/**
+ * 停止调度目标，正在执行的一轮会执行完，但不再安排下一轮
+ */
+export function stopTarget(target: Target): void {
+  const schedule = schedules.get(target);
+  if (!schedule) return;
+  schedule.stopped = true;
+  if (schedule.timer) clearTimeout(schedule.timer);
+  schedule.timer = null;
+  target.status.nextRunAt = null;
+}
+
+/**
+ * 停止调度目标并取消正在执行的一轮（目标从配置中删除时）
+ * @returns 本轮收尾结束后 resolve，之后才能关闭目标的 Dispatcher
+ */
+export function cancelTarget(target: Target): Promise<void> {
+  stopTarget(target);
+  const schedule = schedules.get(target);
+  if (!schedule?.running) return Promise.resolve();
+
+  schedule.controller?.abort();
+  const running = schedule.running;
+  cancelling.add(running);
+  return running.finally(() => cancelling.delete(running));
+}
+
+/**
+ * 停止所有目标的调度，并等待进行中的一轮结束（不再重试）
+ * 超过 timeout 仍未结束时取消进行中的请求
+ * @returns 是否在超时前全部结束
+ */
+export async function drainTargets(
+  targets: Target[],
+  timeout: number,
+): Promise<boolean> {
+  draining.abort();
+  targets.forEach(stopTarget);
+
+  const running = targets
+    .map((target) => schedules.get(target)?.running)
+    .filter((promise): promise is Promise<void> => !!promise)
+    .concat([...cancelling]);
+  if (running.length === 0) return true;
+
+  const timer = new AbortController();
+  const finished = await Promise.race([
+    Promise.all(running).then(() => true),
+    sleep(timeout, timer.signal).then(() => false),
+  ]);
+  timer.abort();
+  if (finished) return true;
+
+  // 计时器已经中止，收尾等待另用一个
+  const grace = new AbortController();
+  targets.forEach((target) => schedules.get(target)?.controller?.abort());
+  await Promise.race([Promise.all(running), sleep(ABORT_GRACE, grace.signal)]);
+  grace.abort();
+  return false;
+}
@@ -0,0 +1,96 @@
+/**
+ * 优雅退出
+ *
+ * 收到 SIGTERM / SIGINT 后按顺序收尾：
+ * 1. 停止监听配置文件与 SIGHUP，关闭状态服务
+ * 2. 停止调度，等待进行中的一轮保活结束（不再重试），超过 shutdownTimeout 时取消进行中的请求
+ * 3. 等待尚未发送完的通知，写入各目标的 Cookie 文件，关闭连接池
+ *
+ * 收尾期间再次收到信号会立即退出。
+ */
+
+import type { Server } from "http";
+import { persistCookies } from "./cookie-persistence.js";
+import { logger } from "./logger.js";
+import { flushNotifications } from "./notifiers/index.js";
+import { drainTargets } from "./scheduler.js";
+import type { Target } from "./target.js";
+
+// 等待通知发送的时间上限（毫秒）
+const NOTIFY_FLUSH_TIMEOUT = 5000;
+
+// 收尾完成后仍有句柄未释放时，等待多久强制退出（毫秒）
+const EXIT_GRACE = 1000;
+
+/**
+ * 需要在退出时收尾的资源
+ */
+export interface ShutdownContext {
+  targets: Target[];
+  server: Server | null;
+  // 停止监听配置文件与 SIGHUP
+  stopWatching: () => void;
+  // 等待进行中的保活结束的时间（毫秒）
+  timeout: number;
+}
+
+/**
+ * 关闭状态服务，断开保持中的连接
+ */
+function closeServer(server: Server): Promise<void> {
+  return new Promise((resolve) => {
+    server.close(() => resolve());
+    server.closeAllConnections();
+  });
+}
+
+/**
+ * 依次收尾并退出
+ */
+async function shutdown(context: ShutdownContext, signal: string): Promise<void> {
+  logger.info(`🛑 收到 ${signal}，正在退出...`);
+
+  context.stopWatching();
+  if (context.server) await closeServer(context.server);
+
+  const drained = await drainTargets(context.targets, context.timeout);
+  if (!drained) {
+    logger.warn(`⚠️ 等待 ${context.timeout / 1000} 秒后仍有保活未结束，已取消`);
+  }
+
+  if (!(await flushNotifications(NOTIFY_FLUSH_TIMEOUT))) {
+    logger.warn("⚠️ 部分通知未能在退出前发送完成");
+  }
+
+  for (const target of context.targets) {
+    persistCookies(target);
+    await target.dispatcher.close().catch(() => {});
+  }
+
+  logger.info("👋 已退出");
+  process.exitCode = 0;
+  // 正常情况下事件循环清空后自然退出，残留的句柄不应阻止退出
+  setTimeout(() => process.exit(0), EXIT_GRACE).unref();
+}
+
+/**
+ * 注册 SIGTERM / SIGINT 处理
+ */
+export function handleShutdown(context: ShutdownContext): void {
+  let shuttingDown = false;
+
+  const onSignal = (signal: NodeJS.Signals): void => {
+    if (shuttingDown) {
+      logger.warn(`⚠️ 再次收到 ${signal}，立即退出`);
+      process.exit(1);
+    }
+    shuttingDown = true;
+    shutdown(context, signal).catch((error) => {
+      logger.error(`❌ 退出时发生异常：${error}`);
+      process.exit(1);
+    });
+  };
+
+  process.on("SIGTERM", onSignal);
+  process.on("SIGINT", onSignal);
+}
@@ -0,0 +1,207 @@
+/**
+ * Space 运行状态识别
+ *
+ * Space 在休眠、构建、运行出错或被暂停时，huggingface.co 上的 Space 页面
+ * 依然返回 200。这里从页面中解析出 Space 的运行阶段（stage），
+ * 也可以选择通过 Hub 的 runtime API（/api/spaces/{owner}/{name}/runtime）获取。
+ */
+
+import * as cheerio from "cheerio";
+import { requestWithRedirects } from "./http-client.js";
+import type { Target } from "./target.js";
+
+/**
+ * Space 运行状态
+ */
+export enum SpaceState {
+  Running = "RUNNING",
+  Starting = "STARTING",
+  Building = "BUILDING",
+  Sleeping = "SLEEPING",
+  Paused = "PAUSED",
+  Stopped = "STOPPED",
+  RuntimeError = "RUNTIME_ERROR",
+  BuildError = "BUILD_ERROR",
+  ConfigError = "CONFIG_ERROR",
+  NoAppFile = "NO_APP_FILE",
+  Unknown = "UNKNOWN",
+}
+
+/**
+ * 状态对保活结果的影响
+ * - up：正常，继续访问目标
+ * - degraded：正在构建或启动，不算失败，也不重试
+ * - down：休眠、暂停或出错，视为保活失败
+ * - unknown：无法识别，按原有逻辑访问目标
+ */
+export type SpaceHealth = "up" | "degraded" | "down" | "unknown";
+
+// Hub 返回的 stage 到 SpaceState 的映射
+const STAGE_MAP: Record<string, SpaceState> = {
+  RUNNING: SpaceState.Running,
+  RUNNING_BUILDING: SpaceState.Running,
+  RUNNING_APP_STARTING: SpaceState.Running,
+  APP_STARTING: SpaceState.Starting,
+  BUILDING: SpaceState.Building,
+  SLEEPING: SpaceState.Sleeping,
+  PAUSED: SpaceState.Paused,
+  STOPPED: SpaceState.Stopped,
+  RUNTIME_ERROR: SpaceState.RuntimeError,
+  BUILD_ERROR: SpaceState.BuildError,
+  CONFIG_ERROR: SpaceState.ConfigError,
+  NO_APP_FILE: SpaceState.NoAppFile,
+};
+
+// 页面中没有结构化数据时使用的文本标记
+// 只匹配单个元素的完整文本（状态徽章与休眠、暂停提示），
+// 避免 README 或应用描述中提到这些词时被误判
+const TEXT_MARKERS: [RegExp, SpaceState][] = [
+  [/^This Space is sleeping\b/i, SpaceState.Sleeping],
+  [/^This Space has been paused\b/i, SpaceState.Paused],
+  [/^Runtime error$/i, SpaceState.RuntimeError],
+  [/^Build error$/i, SpaceState.BuildError],
+];
+
+// 用户撰写的内容（README 等），其中的文本不参与状态识别
+const USER_CONTENT_SELECTOR = ".prose, article, [data-target='RepoReadme']";
+
+/**
+ * 将 Hub 返回的 stage 字符串转换为 SpaceState
+ */
+export function parseStage(stage: unknown): SpaceState {
+  if (typeof stage !== "string") return SpaceState.Unknown;
+  return STAGE_MAP[stage.toUpperCase()] ?? SpaceState.Unknown;
+}
+
+/**
+ * 判断状态对保活结果的影响
+ */
+export function getSpaceHealth(state: SpaceState): SpaceHealth {
+  switch (state) {
+    case SpaceState.Running:
+      return "up";
+    case SpaceState.Starting:
+    case SpaceState.Building:
+      return "degraded";
+    case SpaceState.Unknown:
+      return "unknown";
+    default:
+      return "down";
+  }
+}
+
+/**
+ * 在任意 JSON 结构中查找 runtime.stage
+ */
+function findRuntimeStage(value: unknown): string | null {
+  if (!value || typeof value !== "object") return null;
+
+  const record = value as Record<string, unknown>;
+  const runtime = record.runtime as Record<string, unknown> | undefined;
+  if (runtime && typeof runtime === "object" && typeof runtime.stage === "string") {
+    return runtime.stage;
+  }
+
+  for (const child of Object.values(record)) {
+    const stage = findRuntimeStage(child);
+    if (stage) return stage;
+  }
+  return null;
+}
+
+/**
+ * 从 Space 页面 HTML 中识别运行状态
+ * 优先读取页面组件的 data-props 中的 runtime.stage，
+ * 其次匹配状态徽章等只含文本的元素（不包括 README 等用户内容）
+ */
+export function detectSpaceStateFromHtml(html: string): SpaceState {
+  const $ = cheerio.load(html);
+
+  for (const element of $("[data-props]").toArray()) {
+    try {
+      const props = JSON.parse($(element).attr("data-props") || "");
+      const stage = findRuntimeStage(props);
+      if (stage) {
+        return parseStage(stage);
+      }
+    } catch {
+      // 不是 JSON，忽略
+    }
+  }
+
+  $(USER_CONTENT_SELECTOR).remove();
+  for (const element of $("body, body *").toArray()) {
+    const $element = $(element);
+    if ($element.children().length > 0) continue;
+
+    const text = $element.text().replace(/\s+/g, " ").trim();
+    for (const [pattern, state] of TEXT_MARKERS) {
+      if (pattern.test(text)) {
+        return state;
+      }
+    }
+  }
+
+  return SpaceState.Unknown;
+}
+
+/**
+ * 根据 Space 页面 URL 生成 runtime API 地址
+ * @returns 无法识别 owner/name 时返回 null
+ */
+export function getRuntimeApiUrl(spaceUrl: string): string | null {
+  try {
+    const url = new URL(spaceUrl);
+    const match = url.pathname.match(/^\/spaces\/([^/]+)\/([^/]+)/);
+    if (!match) return null;
+    return `${url.origin}/api/spaces/${match[1]}/${match[2]}/runtime`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 通过 Hub runtime API 获取 Space 运行状态
+ * 请求失败时返回 SpaceState.Unknown，不影响后续保活
+ */
+export async function fetchSpaceRuntimeState(
+  target: Target,
+  signal?: AbortSignal,
+): Promise<SpaceState> {
+  const { spaceUrl, hfToken, request } = target.config;
+  const apiUrl = getRuntimeApiUrl(spaceUrl);
+
+  if (!apiUrl) {
+    target.log.warn("⚠️ 无法从 SPACE_URL 解析 Space 名称，跳过 runtime API");
+    return SpaceState.Unknown;
+  }
+
+  try {
+    const { response } = await requestWithRedirects(target, apiUrl, {
+      headers: {
+        "Accept": "application/json",
+        // 私有 Space 的 runtime API 需要访问令牌
+        ...(hfToken ? { "Authorization": `Bearer ${hfToken}` } : {}),
+      },
+      headersTimeout: request.headersTimeout,
+      bodyTimeout: request.bodyTimeout,
+      signal,
+    });
+    const body = await response.body.text();
+
+    if (response.statusCode !== 200) {
+      target.log.warn(`⚠️ runtime API 返回 HTTP ${response.statusCode}`, {
+        phase: "space-page",
+        statusCode: response.statusCode,
+      });
+      return SpaceState.Unknown;
+    }
+
+    return parseStage(JSON.parse(body).stage);
+  } catch (error) {
+    target.log.warn(`⚠️ 获取 runtime 状态失败：${error}`, {
+      phase: "space-page",
+    });
+    return SpaceState.Unknown;
+  }
+}
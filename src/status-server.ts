@@ -0,0 +1,227 @@
+/**
+ * 内置 HTTP 状态服务
+ *
+ * 路由：
+ * - GET  /healthz  进程存活检查，供容器编排使用
+ * - GET  /status   各目标最近一次保活结果（JSON）
+ * - POST /trigger  立即执行一次保活，可通过 ?target=名称 指定目标
+ * - GET  /metrics  Prometheus 指标
+ * - GET  /stats    运行历史统计，可通过 ?window=7d&target=名称 指定窗口与目标
+ *
+ * 配置了 httpToken 时，除 /healthz 外的接口都需要 Authorization: Bearer <token>；
+ * /status 中的 URL 与跳转链按日志的规则脱敏，不会暴露 __sign 等凭据。
+ */
+
+import { createHash, timingSafeEqual } from "crypto";
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "http";
+import type { HttpServerConfig } from "./config.js";
+import { getHistoryStats } from "./history.js";
+import { logger, redactValue } from "./logger.js";
+import { renderMetrics } from "./metrics.js";
+import type { Target } from "./target.js";
+import { parseDuration } from "./utils.js";
+
+// /stats 默认的统计窗口
+const DEFAULT_STATS_WINDOW = "7d";
+
+/**
+ * 将毫秒时间戳格式化为 ISO 字符串
+ */
+function toIsoString(time: number | null): string | null {
+  return time === null ? null : new Date(time).toISOString();
+}
+
+/**
+ * 输出 JSON 响应
+ */
+function sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+  res.writeHead(statusCode, {
+    "Content-Type": "application/json; charset=utf-8",
+  });
+  res.end(JSON.stringify(body, null, 2));
+}
+
+/**
+ * 检查请求是否携带正确的访问令牌（比较哈希，避免按耗时猜测令牌）
+ */
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const match = req.headers.authorization?.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(match[1]), digest(token));
+}
+
+/**
+ * 生成单个目标的状态快照
+ */
+function describeTarget(target: Target) {
+  const { config, status } = target;
+  return {
+    name: config.name,
+    spaceUrl: config.spaceUrl || null,
+    targetUrl: config.targetUrl || null,
+    lastResult: status.lastResult,
+    lastMessage: status.lastMessage,
+    lastResponseTime: status.lastResponseTime,
+    lastRunAt: toIsoString(status.lastRunAt),
+    nextRunAt: toIsoString(status.nextRunAt),
+    consecutiveFailures: status.consecutiveFailures,
+    spaceState: status.spaceState,
+    iframeUrl: status.iframeUrl,
+    iframeSource: status.iframeSource,
+    // 缓存的应用地址何时写入、何时随 __sign 过期（不带 __sign 时为 null）
+    iframeCache: target.iframeCache && {
+      cachedAt: toIsoString(target.iframeCache.cachedAt),
+      expiresAt: toIsoString(target.iframeCache.expiresAt),
+    },
+    finalUrl: status.finalUrl,
+    redirects: status.redirects,
+    circuitBreaker: {
+      state: status.circuitBreaker.state,
+      openedAt: toIsoString(status.circuitBreaker.openedAt),
+      currentInterval: status.circuitBreaker.currentInterval,
+    },
+    credentials: status.credentials.map((credential) => ({
+      name: credential.name,
+      domain: credential.domain,
+      path: credential.path,
+      source: credential.source,
+      expiresAt: toIsoString(credential.expiresAt),
+      remainingSeconds: Math.round((credential.expiresAt - Date.now()) / 1000),
+      expiringSoon: credential.expiringSoon,
+    })),
+    lastWakeUp: status.lastWakeUp && {
+      ...status.lastWakeUp,
+      at: toIsoString(status.lastWakeUp.at),
+    },
+  };
+}
+
+/**
+ * 启动状态服务
+ * @param targets 所有保活目标
+ * @param triggerTarget 立即执行一次保活的回调，目标正在执行时返回 false
+ */
+export function startStatusServer(
+  config: HttpServerConfig,
+  targets: Target[],
+  triggerTarget: (target: Target) => boolean,
+): Server {
+  const startedAt = Date.now();
+
+  const handle = (req: IncomingMessage, res: ServerResponse): void => {
+    const url = new URL(req.url || "/", "http://localhost");
+
+    if (
+      config.token && url.pathname !== "/healthz" &&
+      !isAuthorized(req, config.token)
+    ) {
+      res.setHeader("WWW-Authenticate", "Bearer");
+      sendJson(res, 401, { error: "Unauthorized" });
+      return;
+    }
+
+    switch (url.pathname) {
+      case "/healthz":
+        sendJson(res, 200, {
+          status: "ok",
+          uptime: Math.round((Date.now() - startedAt) / 1000),
+        });
+        return;
+
+      case "/status":
+        sendJson(res, 200, {
+          startedAt: toIsoString(startedAt),
+          // iframe URL、最终 URL 与跳转链中可能带有 __sign
+          targets: targets.map((target) => redactValue(describeTarget(target))),
+        });
+        return;
+
+      case "/trigger": {
+        if (req.method !== "POST") {
+          res.setHeader("Allow", "POST");
+          sendJson(res, 405, { error: "Method Not Allowed" });
+          return;
+        }
+
+        const name = url.searchParams.get("target");
+        const selected = name
+          ? targets.filter((target) => target.config.name === name)
+          : targets;
+
+        if (selected.length === 0) {
+          sendJson(res, 404, { error: `未找到目标：${name}` });
+          return;
+        }
+
+        logger.info(
+          `🔔 收到手动触发请求：${selected.map((t) => t.config.name).join(", ")}`,
+        );
+        // 保活可能耗时较长，不等待结果，立即返回；正在执行的目标不重复触发
+        const triggered: string[] = [];
+        const skipped: string[] = [];
+        for (const target of selected) {
+          if (triggerTarget(target)) {
+            triggered.push(target.config.name);
+          } else {
+            target.log.info("⏭️ 本轮保活尚未结束，忽略手动触发");
+            skipped.push(target.config.name);
+          }
+        }
+        sendJson(res, 202, { triggered, skipped });
+        return;
+      }
+
+      case "/metrics":
+        res.writeHead(200, {
+          "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+        });
+        res.end(renderMetrics());
+        return;
+
+      case "/stats": {
+        const windowText = url.searchParams.get("window") ?? DEFAULT_STATS_WINDOW;
+        const window = parseDuration(windowText);
+        if (window === null || window <= 0) {
+          sendJson(res, 400, { error: `无效的时长：${windowText}` });
+          return;
+        }
+
+        // 历史文件可能很大，逐行读取完成后再响应
+        getHistoryStats(window, url.searchParams.getAll("target"))
+          .then((stats) => {
+            if (stats === null) {
+              sendJson(res, 404, { error: "未配置运行历史文件" });
+              return;
+            }
+            sendJson(res, 200, { window: windowText, targets: stats });
+          })
+          .catch((error: unknown) => {
+            logger.error(`❌ 读取运行历史失败：${error}`);
+            sendJson(res, 500, { error: "读取运行历史失败" });
+          });
+        return;
+      }
+
+      default:
+        sendJson(res, 404, { error: "Not Found" });
+    }
+  };
+
+  const server = createServer(handle);
+
+  server.on("error", (error) => {
+    logger.error(`❌ 状态服务异常：${error.message}`);
+  });
+
+  server.listen(config.port, config.host, () => {
+    logger.info(`🌐 状态服务已启动：http://${config.host}:${config.port}`);
+  });
+
+  return server;
+}
@@ -0,0 +1,129 @@
+/**
+ * 保活目标的运行时状态
+ *
+ * 每个目标持有独立的 Cookie 存储，互不影响
+ */
+
+import type { Dispatcher } from "undici";
+import type { CircuitBreakerStatus } from "./backoff.js";
+import type { TargetConfig } from "./config.js";
+import type { CredentialExpiry } from "./cookie-expiry.js";
+import type { CookieJar } from "./cookie-jar.js";
+import { createDispatcher } from "./dispatcher.js";
+import type { RedirectHop } from "./http-client.js";
+import type { HubCredentials } from "./hub-auth.js";
+import type { IframeCache, IframeSource } from "./iframe.js";
+import { createLogger, type Logger } from "./logger.js";
+import { createNotifier, type Notifier } from "./notifiers/index.js";
+import type { SpaceState } from "./space-state.js";
+
+/**
+ * 一轮保活的结果
+ * degraded 表示 Space 正在构建或启动，既不算成功也不算失败
+ */
+export type KeepAliveResult = "up" | "degraded" | "down";
+
+/**
+ * 一轮保活的控制信号
+ */
+export interface KeepAliveOptions {
+  // 中止时取消进行中的请求，本轮直接结束
+  signal?: AbortSignal;
+  // 中止时不再重试：当前请求照常完成，重试前的等待立即结束
+  stopRetry?: AbortSignal;
+}
+
+/**
+ * 目标最近一次保活的结果，供状态接口查询
+ */
+export interface TargetStatus {
+  lastResult: KeepAliveResult | null;
+  // 最近一次 up 或 down 的结果，degraded 不会覆盖，用于判断 up ↔ down 的状态变化
+  lastSettledResult: "up" | "down" | null;
+  lastMessage: string | null;
+  lastResponseTime: number | null;
+  lastRunAt: number | null;
+  nextRunAt: number | null;
+  consecutiveFailures: number;
+  iframeUrl: string | null;
+  // 最近一次解析出的应用地址的来源
+  iframeSource: IframeSource | null;
+  spaceState: SpaceState | null;
+  // 最近一次保活请求的最终 URL 与跳转链
+  finalUrl: string | null;
+  redirects: RedirectHop[];
+  circuitBreaker: CircuitBreakerStatus;
+  // 各 Cookie 的过期预测，按过期时间升序
+  credentials: CredentialExpiry[];
+  // 最近一次唤醒 Space 的时间、结果、方式与耗时
+  lastWakeUp: {
+    at: number;
+    outcome: "awake" | "failed";
+    method: "hub" | "page";
+    durationMs: number;
+  } | null;
+}
+
+export interface Target {
+  config: TargetConfig;
+  // 附带目标名称的日志器
+  log: Logger;
+  cookieStorage: CookieJar;
+  // 使用 HF 访问令牌时从 Hub API 获取的凭据
+  hubCredentials: HubCredentials | null;
+  // 缓存的应用地址，__sign 过期或保活失败前不再请求 Space 页面
+  iframeCache: IframeCache | null;
+  // 所有出站请求共用的 Dispatcher（代理、CA 证书与连接池）
+  dispatcher: Dispatcher;
+  notifiers: Notifier[];
+  status: TargetStatus;
+}
+
+/**
+ * 根据目标配置创建已启用的通知器
+ */
+export function createNotifiers(
+  config: TargetConfig,
+  dispatcher: Dispatcher,
+): Notifier[] {
+  return config.notifiers
+    .filter((notifier) => notifier.enabled !== false)
+    .map((notifier) => createNotifier(notifier, dispatcher));
+}
+
+/**
+ * 根据目标配置创建运行时状态
+ */
+export function createTarget(config: TargetConfig): Target {
+  const dispatcher = createDispatcher(config);
+  return {
+    config,
+    log: createLogger({ target: config.name }),
+    cookieStorage: [],
+    hubCredentials: null,
+    iframeCache: null,
+    dispatcher,
+    notifiers: createNotifiers(config, dispatcher),
+    status: {
+      lastResult: null,
+      lastSettledResult: null,
+      lastMessage: null,
+      lastResponseTime: null,
+      lastRunAt: null,
+      nextRunAt: null,
+      consecutiveFailures: 0,
+      iframeUrl: null,
+      iframeSource: null,
+      spaceState: null,
+      finalUrl: null,
+      redirects: [],
+      circuitBreaker: {
+        state: "closed",
+        openedAt: null,
+        currentInterval: config.interval,
+      },
+      credentials: [],
+      lastWakeUp: null,
+    },
+  };
+}
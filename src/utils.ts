@@ -0,0 +1,58 @@
+/**
+ * 通用工具函数
+ */
+
+/**
+ * 格式化时间戳
+ */
+export function getTimestamp(): string {
+  return new Date().toISOString();
+}
+
+/**
+ * 延迟函数，signal 中止时提前结束（不抛出异常）
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+/**
+ * 将毫秒数格式化为易读的时长，例如 2天3小时、3小时12分、45分钟
+ */
+export function formatDuration(ms: number): string {
+  const minutes = Math.floor(Math.abs(ms) / 60000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const rest = minutes % 60;
+
+  if (days > 0) return `${days}天${hours}小时`;
+  if (hours > 0) return `${hours}小时${rest}分`;
+  return `${rest}分钟`;
+}
+
+/**
+ * 解析时长，如 30m、24h、7d，纯数字按毫秒计算
+ * @returns 无法解析时返回 null
+ */
+export function parseDuration(text: string): number | null {
+  const match = text.trim().match(/^(\d+(?:\.\d+)?)(ms|s|m|h|d)?$/);
+  if (!match) return null;
+
+  const units: Record<string, number> = {
+    ms: 1,
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+  };
+  return Math.round(parseFloat(match[1]) * units[match[2] ?? "ms"]);
+}
@@ -0,0 +1,266 @@
+/**
+ * 唤醒休眠的 Space
+ *
+ * 保活时遇到休眠页面或失败标记，重试几次通常等不到冷启动完成（往往需要 2-3 分钟）。
+ * 开启 wakeUp 后，先发起一次唤醒，再在 wakeTimeout 内每隔 wakePollInterval 检查一次，
+ * 直到应用恢复响应：
+ * - hub：调用 Hub API 重启 Space（需要 hfToken，且令牌有写权限）
+ * - page：像浏览器一样访问 Space 页面与应用地址，触发 HF 的按需启动
+ * - auto：配置了 hfToken 时用 hub，失败时退回 page；否则用 page
+ *
+ * 每次唤醒的方式、结果与耗时作为单独的事件通知、计入指标与运行历史。
+ */
+
+import { containsFailureMarker } from "./assertions.js";
+import { readBody, requestWithRedirects } from "./http-client.js";
+import { recordWakeUp } from "./history.js";
+import { restartSpace } from "./hub-auth.js";
+import { getIframeUrl } from "./iframe.js";
+import type { Logger } from "./logger.js";
+import { wakeUpDuration, wakeUps } from "./metrics.js";
+import { dispatchNotification } from "./notifiers/index.js";
+import { getSpaceHealth, SpaceState } from "./space-state.js";
+import type { KeepAliveOptions, Target } from "./target.js";
+import { getTimestamp, sleep } from "./utils.js";
+
+export type WakeMethod = "auto" | "hub" | "page";
+
+export const WAKE_METHODS: WakeMethod[] = ["auto", "hub", "page"];
+
+/**
+ * 一次唤醒的结果
+ */
+export interface WakeUpResult {
+  // awake：在期限内恢复响应；failed：超时或 Space 进入出错状态
+  outcome: "awake" | "failed";
+  // 实际使用的唤醒方式
+  method: "hub" | "page";
+  durationMs: number;
+  message: string;
+}
+
+// 一次检查的结论
+type ProbeResult =
+  | { done: false }
+  | { done: true; outcome: WakeUpResult["outcome"]; message: string };
+
+const WAITING: ProbeResult = { done: false };
+
+/**
+ * 检查 Space 是否已启动完成
+ * Space 仍在休眠、构建或启动，以及请求出错时都视为继续等待
+ */
+async function probe(
+  target: Target,
+  log: Logger,
+  signal?: AbortSignal,
+): Promise<ProbeResult> {
+  const { config } = target;
+  let appUrl: string | null = null;
+
+  if (config.spaceUrl) {
+    const { iframe, state } = await getIframeUrl(target, signal);
+    const health = getSpaceHealth(state);
+    if (health === "down" && state !== SpaceState.Sleeping) {
+      return { done: true, outcome: "failed", message: `Space 状态：${state}` };
+    }
+    if (health === "degraded" || state === SpaceState.Sleeping) {
+      return WAITING;
+    }
+    appUrl = iframe?.url ?? null;
+  }
+
+  appUrl ??= target.status.iframeUrl ?? target.hubCredentials?.signedUrl ??
+    (config.targetUrl || null);
+  if (!appUrl) {
+    // 无法访问应用时以 Space 状态为准，后续由 keepAlive 处理缺少 URL 的情况
+    return { done: true, outcome: "awake", message: "Space 已启动" };
+  }
+
+  try {
+    const { response } = await requestWithRedirects(target, appUrl, {
+      headers: {
+        ...config.request.headers,
+        "User-Agent": config.request.userAgent,
+      },
+      headersTimeout: config.request.headersTimeout,
+      bodyTimeout: config.request.bodyTimeout,
+      signal,
+    });
+    const body = await readBody(response, config.request.maxBodySize);
+    if (
+      config.expectedStatusCodes.includes(response.statusCode) &&
+      !containsFailureMarker(body, config.failureMarkers)
+    ) {
+      return { done: true, outcome: "awake", message: "应用已恢复响应" };
+    }
+    log.debug(`应用尚未就绪：HTTP ${response.statusCode}`, {
+      statusCode: response.statusCode,
+    });
+  } catch (error: unknown) {
+    if (signal?.aborted) throw error;
+    log.debug(
+      `应用尚未就绪：${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  return WAITING;
+}
+
+/**
+ * 发起唤醒
+ * @returns 实际使用的唤醒方式
+ * @throws hub 方式下 Hub API 调用失败时抛出
+ */
+async function triggerWakeUp(
+  target: Target,
+  log: Logger,
+  signal?: AbortSignal,
+): Promise<"hub" | "page"> {
+  const { wakeMethod, hfToken } = target.config;
+  if (wakeMethod === "page" || (wakeMethod === "auto" && !hfToken)) {
+    // 访问 Space 页面与应用地址本身就会触发启动，由第一次检查完成
+    return "page";
+  }
+
+  try {
+    await restartSpace(target, signal);
+    log.info("📨 已通过 Hub API 请求重启 Space");
+    return "hub";
+  } catch (error: unknown) {
+    if (wakeMethod === "hub" || signal?.aborted) throw error;
+    log.warn(
+      `⚠️ 通过 Hub API 唤醒失败，改为访问页面唤醒：${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+    return "page";
+  }
+}
+
+/**
+ * 记录唤醒结果并发送通知
+ */
+async function reportWakeUp(
+  target: Target,
+  result: WakeUpResult,
+): Promise<void> {
+  const labels = { target: target.config.name };
+  wakeUps.inc({ ...labels, result: result.outcome });
+  if (result.outcome === "awake") {
+    wakeUpDuration.observe(labels, result.durationMs / 1000);
+  }
+  target.status.lastWakeUp = {
+    at: Date.now(),
+    outcome: result.outcome,
+    method: result.method,
+    durationMs: result.durationMs,
+  };
+  recordWakeUp(target, {
+    method: result.method,
+    outcome: result.outcome,
+    durationMs: result.durationMs,
+  });
+
+  await dispatchNotification(target, {
+    kind: "wakeUp",
+    target: target.config.name,
+    status: result.outcome === "awake" ? "up" : "down",
+    previousStatus: target.status.lastResult,
+    // 每次唤醒都值得告知，不受 transition 模式过滤
+    isTransition: true,
+    message: result.message,
+    timestamp: getTimestamp(),
+    spaceUrl: target.config.spaceUrl,
+    targetUrl: target.config.targetUrl,
+  });
+}
+
+/**
+ * 唤醒 Space，并等待应用恢复响应
+ * @returns 唤醒结果；进程退出导致唤醒中断时返回 null，不记录也不通知
+ */
+export async function wakeUpSpace(
+  target: Target,
+  options: KeepAliveOptions = {},
+): Promise<WakeUpResult | null> {
+  const { signal } = options;
+  const { wakeTimeout, wakePollInterval } = target.config;
+  const stop = AbortSignal.any(
+    [options.signal, options.stopRetry].filter((signal) => signal !== undefined),
+  );
+  const log = target.log.child({ phase: "wake-up" });
+  if (stop.aborted) return null;
+
+  const startTime = Date.now();
+  const deadline = startTime + wakeTimeout;
+  const finish = async (
+    method: WakeUpResult["method"],
+    outcome: WakeUpResult["outcome"],
+    message: string,
+  ): Promise<WakeUpResult> => {
+    const result = { outcome, method, durationMs: Date.now() - startTime, message };
+    await reportWakeUp(target, result);
+    return result;
+  };
+
+  log.info(`☀️ Space 未在运行，开始唤醒（最长等待${wakeTimeout / 1000}秒）`);
+
+  let method: WakeUpResult["method"];
+  try {
+    method = await triggerWakeUp(target, log, signal);
+  } catch (error: unknown) {
+    if (signal?.aborted) return null;
+    const reason = error instanceof Error ? error.message : String(error);
+    log.error(`❌ 唤醒失败：${reason}`, { outcome: "failed" });
+    return finish("hub", "failed", `唤醒失败：${reason}`);
+  }
+
+  for (let round = 1;; round++) {
+    let result: ProbeResult;
+    try {
+      result = await probe(target, log, signal);
+    } catch {
+      return null;
+    }
+    if (signal?.aborted) return null;
+
+    const elapsed = Date.now() - startTime;
+    if (result.done) {
+      const seconds = (elapsed / 1000).toFixed(1);
+      if (result.outcome === "awake") {
+        log.info(`☀️ 唤醒成功：${result.message}，用时${seconds}秒`, {
+          outcome: "awake",
+          durationMs: elapsed,
+        });
+        return finish(method, "awake", `Space 已唤醒（${method}），用时${seconds}秒`);
+      }
+      log.error(`❌ 唤醒失败：${result.message}`, {
+        outcome: "failed",
+        durationMs: elapsed,
+      });
+      return finish(method, "failed", `唤醒失败：${result.message}`);
+    }
+
+    if (Date.now() + wakePollInterval > deadline) {
+      log.error(`❌ 唤醒失败：超过${wakeTimeout / 1000}秒仍未启动完成`, {
+        outcome: "timeout",
+        durationMs: elapsed,
+      });
+      return finish(
+        method,
+        "failed",
+        `唤醒超时：${wakeTimeout / 1000}秒内未启动完成`,
+      );
+    }
+
+    log.info(
+      `😴 第 ${round} 次检查：Space 尚未就绪，已等待${Math.round(elapsed / 1000)}秒`,
+      { durationMs: elapsed },
+    );
+    await sleep(wakePollInterval, stop);
+    if (stop.aborted) {
+      log.info("⏹️ 进程正在退出，放弃等待唤醒");
+      return null;
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  type CalendarConfig,
+  createCalendar,
+  getNextRunTime,
+  validateCalendar,
+} from "../src/calendar.js";
+
+/**
+ * 按 UTC 创建日历
+ */
+function calendarFor(config: Partial<CalendarConfig>) {
+  return createCalendar({
+    schedule: "",
+    activeHours: [],
+    quietHours: [],
+    timezone: "UTC",
+    ...config,
+  });
+}
+
+// 2026-10-16 是星期五
+const FRIDAY = (time: string) => Date.parse(`2026-10-16T${time}:00Z`);
+const MONDAY = (time: string) => Date.parse(`2026-10-19T${time}:00Z`);
+
+describe("nextCronTime", () => {
+  it("支持步长、列表与英文缩写", () => {
+    const calendar = calendarFor({ schedule: "*/15 9,18 * * mon-fri" });
+
+    assert.equal(calendar.nextCronTime(FRIDAY("09:01")), FRIDAY("09:15"));
+    assert.equal(calendar.nextCronTime(FRIDAY("09:45")), FRIDAY("18:00"));
+    assert.equal(calendar.nextCronTime(FRIDAY("18:45")), MONDAY("09:00"));
+  });
+
+  it("日与周同时限定时满足其一即可", () => {
+    const calendar = calendarFor({ schedule: "0 0 1 * sun" });
+
+    // 星期日 2026-10-18 早于 11 月 1 日
+    assert.equal(calendar.nextCronTime(FRIDAY("12:00")), Date.parse("2026-10-18T00:00:00Z"));
+  });
+});
+
+describe("时间窗口", () => {
+  it("activeHours 限定星期与时段，结束时刻不包含在内", () => {
+    const calendar = calendarFor({ activeHours: ["mon-fri 09:00-18:00"] });
+
+    assert.equal(calendar.isAllowed(FRIDAY("17:59")), true);
+    assert.equal(calendar.isAllowed(FRIDAY("18:00")), false);
+    assert.equal(calendar.nextAllowed(FRIDAY("18:00")), MONDAY("09:00"));
+  });
+
+  it("跨越午夜的 quietHours 按开始那天的星期计算", () => {
+    const calendar = calendarFor({ quietHours: ["fri 22:00-06:00"] });
+
+    assert.equal(calendar.isAllowed(Date.parse("2026-10-17T05:59:00Z")), false);
+    assert.equal(calendar.isAllowed(Date.parse("2026-10-17T22:30:00Z")), true);
+  });
+});
+
+describe("getNextRunTime", () => {
+  it("cron 触发时刻落在窗口外时跨过周末，找到下一个窗口内的触发时刻", () => {
+    const calendar = calendarFor({
+      schedule: "*/2 * * * *",
+      activeHours: ["mon-fri 09:00-18:00"],
+    });
+
+    const next = (from: number) => getNextRunTime(calendar, from, { interval: 0 });
+    assert.equal(next(FRIDAY("17:57")), FRIDAY("17:58"));
+    assert.equal(next(FRIDAY("17:59")), MONDAY("09:00"));
+  });
+
+  it("窗口开始时刻不是 cron 触发时刻时取窗口内的第一个触发时刻", () => {
+    const calendar = calendarFor({
+      schedule: "45 * * * *",
+      activeHours: ["09:30-10:00"],
+    });
+
+    assert.equal(
+      getNextRunTime(calendar, FRIDAY("10:00"), { interval: 0 }),
+      Date.parse("2026-10-17T09:45:00Z"),
+    );
+  });
+
+  it("固定间隔模式推迟到下一个允许的时刻", () => {
+    const calendar = calendarFor({ quietHours: ["00:00-08:00"] });
+
+    assert.equal(
+      getNextRunTime(calendar, FRIDAY("23:50"), { interval: 20 * 60 * 1000 }),
+      Date.parse("2026-10-17T08:00:00Z"),
+    );
+  });
+
+  it("cron 永远落在窗口外时返回 null", () => {
+    const calendar = calendarFor({
+      schedule: "0 12 * * *",
+      activeHours: ["09:00-10:00"],
+    });
+
+    assert.equal(getNextRunTime(calendar, FRIDAY("12:00"), { interval: 0 }), null);
+  });
+});
+
+describe("validateCalendar", () => {
+  it("报告无效的表达式与不会触发的组合", () => {
+    const base = { schedule: "", activeHours: [], quietHours: [], timezone: "UTC" };
+
+    assert.deepEqual(
+      validateCalendar({ ...base, schedule: "*/2 * * * *", activeHours: ["mon-fri 09:00-18:00"] }),
+      [],
+    );
+    assert.match(validateCalendar({ ...base, schedule: "* * *" })[0], /应有 5 个字段/);
+    assert.match(validateCalendar({ ...base, timezone: "Mars/Base" })[0], /无效的时区/);
+    assert.match(
+      validateCalendar({ ...base, schedule: "0 12 * * *", activeHours: ["09:00-10:00"] })[0],
+      /不会触发/,
+    );
+  });
+});
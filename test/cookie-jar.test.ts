@@ -0,0 +1,178 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  applySetCookie,
+  type CookieJar,
+  defaultPath,
+  domainMatches,
+  formatCookieHeader,
+  getApplicableCookies,
+  pathMatches,
+  removeExpiredCookies,
+} from "../src/cookie-jar.js";
+
+const NOW = Date.UTC(2025, 0, 1);
+
+/**
+ * 返回应发送给 URL 的 Cookie 名称
+ */
+function namesFor(jar: CookieJar, url: string, now = NOW): string[] {
+  return getApplicableCookies(jar, url, now).map((stored) => stored.name);
+}
+
+describe("domainMatches", () => {
+  it("匹配相同主机与子域名", () => {
+    assert.equal(domainMatches("huggingface.co", "huggingface.co"), true);
+    assert.equal(domainMatches("www.huggingface.co", "huggingface.co"), true);
+  });
+
+  it("不匹配仅后缀相同的主机与 IP 地址", () => {
+    assert.equal(domainMatches("nothuggingface.co", "huggingface.co"), false);
+    assert.equal(domainMatches("1.2.3.4", "2.3.4"), false);
+  });
+});
+
+describe("pathMatches / defaultPath", () => {
+  it("按 RFC 6265 匹配路径", () => {
+    assert.equal(pathMatches("/app", "/app"), true);
+    assert.equal(pathMatches("/app/run", "/app"), true);
+    assert.equal(pathMatches("/app/run", "/app/"), true);
+    assert.equal(pathMatches("/apple", "/app"), false);
+    assert.equal(pathMatches("/", "/app"), false);
+  });
+
+  it("默认路径取最后一个 / 之前的部分", () => {
+    assert.equal(defaultPath("/"), "/");
+    assert.equal(defaultPath("/index.html"), "/");
+    assert.equal(defaultPath("/spaces/user/demo"), "/spaces/user");
+    assert.equal(defaultPath("relative"), "/");
+  });
+});
+
+describe("applySetCookie", () => {
+  it("未设置 Domain 时为 host-only，不发送给子域名", () => {
+    const jar: CookieJar = [];
+    const result = applySetCookie(jar, "https://huggingface.co/", "token=a", NOW);
+
+    assert.equal(result.action, "stored");
+    assert.equal(jar[0].hostOnly, true);
+    assert.deepEqual(namesFor(jar, "https://huggingface.co/"), ["token"]);
+    assert.deepEqual(namesFor(jar, "https://www.huggingface.co/"), []);
+  });
+
+  it("设置 Domain 后同时发送给子域名", () => {
+    const jar: CookieJar = [];
+    applySetCookie(jar, "https://huggingface.co/", "token=a; Domain=.huggingface.co", NOW);
+
+    assert.equal(jar[0].hostOnly, false);
+    assert.equal(jar[0].domain, "huggingface.co");
+    assert.deepEqual(namesFor(jar, "https://www.huggingface.co/"), ["token"]);
+    assert.deepEqual(namesFor(jar, "https://example.com/"), []);
+  });
+
+  it("拒绝与请求主机不匹配的 Domain", () => {
+    const jar: CookieJar = [];
+    const result = applySetCookie(jar, "https://huggingface.co/", "token=a; Domain=example.com", NOW);
+
+    assert.equal(result.action, "rejected");
+    assert.equal(jar.length, 0);
+  });
+
+  it("拒绝公共后缀与单段域名作为 Domain", () => {
+    const jar: CookieJar = [];
+    for (const header of ["s=1; Domain=hf.space", "s=1; Domain=.space", "s=1; Domain=co.uk"]) {
+      const url = header.includes("co.uk") ? "https://a.co.uk/" : "https://user-demo.hf.space/";
+      assert.equal(applySetCookie(jar, url, header, NOW).action, "rejected", header);
+    }
+    assert.equal(jar.length, 0);
+  });
+
+  it("Domain 为公共后缀且与主机相同时按 host-only 接受", () => {
+    const jar: CookieJar = [];
+    const result = applySetCookie(jar, "http://localhost:3000/", "s=1; Domain=localhost", NOW);
+
+    assert.equal(result.action, "stored");
+    assert.equal(jar[0].hostOnly, true);
+  });
+
+  it("未设置 Path 时使用请求的默认路径", () => {
+    const jar: CookieJar = [];
+    applySetCookie(jar, "https://huggingface.co/spaces/user/demo", "s=1", NOW);
+
+    assert.equal(jar[0].path, "/spaces/user");
+    assert.deepEqual(namesFor(jar, "https://huggingface.co/spaces/user/other"), ["s"]);
+    assert.deepEqual(namesFor(jar, "https://huggingface.co/"), []);
+  });
+
+  it("同名、同域、同路径时替换并返回旧值", () => {
+    const jar: CookieJar = [];
+    applySetCookie(jar, "https://huggingface.co/", "token=a; Path=/", NOW);
+    const result = applySetCookie(jar, "https://huggingface.co/", "token=b; Path=/", NOW + 1000);
+
+    assert.equal(result.action, "stored");
+    assert.equal(result.action === "stored" && result.previousValue, "a");
+    assert.equal(jar.length, 1);
+    assert.equal(jar[0].creationTime, NOW);
+  });
+
+  it("Max-Age=0 删除已有的 Cookie", () => {
+    const jar: CookieJar = [];
+    applySetCookie(jar, "https://huggingface.co/", "token=a; Path=/", NOW);
+    const result = applySetCookie(jar, "https://huggingface.co/", "token=; Path=/; Max-Age=0", NOW);
+
+    assert.equal(result.action, "deleted");
+    assert.equal(jar.length, 0);
+  });
+
+  it("Expires 早于当前时间时删除，Max-Age 优先于 Expires", () => {
+    const jar: CookieJar = [];
+    applySetCookie(jar, "https://huggingface.co/", "a=1; Path=/", NOW);
+    const deleted = applySetCookie(
+      jar,
+      "https://huggingface.co/",
+      "a=; Path=/; Expires=Thu, 01 Jan 1970 00:00:00 GMT",
+      NOW,
+    );
+    assert.equal(deleted.action, "deleted");
+    assert.equal(jar.length, 0);
+
+    applySetCookie(
+      jar,
+      "https://huggingface.co/",
+      "b=1; Max-Age=60; Expires=Thu, 01 Jan 1970 00:00:00 GMT",
+      NOW,
+    );
+    assert.equal(jar[0].expires, NOW + 60_000);
+  });
+
+  it("过期的 Cookie 不再发送，并可被清理", () => {
+    const jar: CookieJar = [];
+    applySetCookie(jar, "https://huggingface.co/", "a=1; Max-Age=60", NOW);
+    applySetCookie(jar, "https://huggingface.co/", "b=1", NOW);
+
+    assert.deepEqual(namesFor(jar, "https://huggingface.co/", NOW + 61_000), ["b"]);
+    const removed = removeExpiredCookies(jar, NOW + 61_000);
+    assert.deepEqual(removed.map((stored) => stored.name), ["a"]);
+    assert.deepEqual(jar.map((stored) => stored.name), ["b"]);
+  });
+});
+
+describe("getApplicableCookies", () => {
+  it("Secure Cookie 只通过 https 发送", () => {
+    const jar: CookieJar = [];
+    applySetCookie(jar, "https://huggingface.co/", "secure=1; Secure", NOW);
+    applySetCookie(jar, "https://huggingface.co/", "plain=1", NOW);
+
+    assert.deepEqual(namesFor(jar, "http://huggingface.co/"), ["plain"]);
+    assert.deepEqual(namesFor(jar, "https://huggingface.co/"), ["secure", "plain"]);
+  });
+
+  it("路径更长的排在前面，并序列化为 Cookie 请求头", () => {
+    const jar: CookieJar = [];
+    applySetCookie(jar, "https://huggingface.co/", "a=1; Path=/", NOW);
+    applySetCookie(jar, "https://huggingface.co/", "b=2; Path=/spaces", NOW + 1);
+
+    const cookies = getApplicableCookies(jar, "https://huggingface.co/spaces/x", NOW);
+    assert.equal(formatCookieHeader(cookies), "b=2; a=1");
+  });
+});
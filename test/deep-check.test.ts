@@ -0,0 +1,159 @@
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import type { ServerResponse } from "node:http";
+import { after, before, describe, it } from "node:test";
+import type { ConfigLayer } from "../src/config-schema.js";
+import { DeepCheckError, runDeepCheck } from "../src/deep-check.js";
+import type { Target } from "../src/target.js";
+import { createTestTarget, sendJson, startServer, type TestServer } from "./helpers.js";
+
+/**
+ * 返回一段 SSE 响应
+ */
+function sendEvents(response: ServerResponse, events: [string, string][]): void {
+  response.writeHead(200, { "Content-Type": "text/event-stream" });
+  response.end(events.map(([event, data]) => `event: ${event}\ndata: ${data}\n\n`).join(""));
+}
+
+// 模拟的 Gradio 接口：名称 → 结果流中的事件
+const GRADIO_RESULTS: Record<string, [string, string][]> = {
+  predict: [["generating", '["Hel"]'], ["complete", '["Hello, world"]']],
+  broken: [["error", "null"]],
+  truncated: [["heartbeat", "null"]],
+};
+
+describe("runDeepCheck", () => {
+  let gradio: TestServer;
+  let streamlit: TestServer;
+  const targets: Target[] = [];
+
+  /**
+   * 创建指向模拟应用的测试目标
+   */
+  function targetFor(server: TestServer, overrides: ConfigLayer): Target {
+    const target = createTestTarget({ targetUrl: server.url, ...overrides });
+    targets.push(target);
+    return target;
+  }
+
+  /**
+   * 对测试目标执行深度保活，应用地址带 __sign
+   */
+  function check(target: Target) {
+    return runDeepCheck(target, `${target.config.targetUrl}/?__sign=jwt`, target.log);
+  }
+
+  before(async () => {
+    // Gradio 5：接口位于 /gradio_api 下
+    gradio = await startServer((request, response) => {
+      const path = new URL(request.url ?? "/", "http://localhost").pathname;
+      const call = path.match(/^\/gradio_api\/call\/(\w+)(?:\/(\w+))?$/);
+
+      if (path === "/config") {
+        sendJson(response, 200, {
+          version: "5.9.1",
+          api_prefix: "/gradio_api",
+          components: [],
+          dependencies: [],
+        });
+      } else if (call && request.method === "POST") {
+        sendJson(response, 200, { event_id: `event_${call[1]}` });
+      } else if (call && call[2] === `event_${call[1]}`) {
+        sendEvents(response, GRADIO_RESULTS[call[1]] ?? []);
+      } else if (path.startsWith("/gradio_api/heartbeat/")) {
+        response.writeHead(200, { "Content-Type": "text/event-stream" });
+        response.flushHeaders();
+      } else {
+        sendJson(response, 404, { detail: "Not Found" });
+      }
+    });
+
+    streamlit = await startServer((request, response) => {
+      if (request.url?.startsWith("/_stcore/health")) {
+        response.end("ok");
+      } else {
+        response.writeHead(404);
+        response.end();
+      }
+    });
+    // 完成 WebSocket 握手，收到客户端的关闭帧后断开
+    streamlit.server.on("upgrade", (request, socket) => {
+      socket.on("data", () => socket.destroy());
+      const accept = createHash("sha1")
+        .update(`${request.headers["sec-websocket-key"]}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`)
+        .digest("base64");
+      socket.write(
+        "HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n" +
+          `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+      );
+    });
+  });
+
+  after(async () => {
+    await Promise.all(targets.map((target) => target.dispatcher.close()));
+    await Promise.all([gradio.close(), streamlit.close()]);
+  });
+
+  it("gradio：调用接口并检查输出，请求都带上 __sign", async () => {
+    const target = targetFor(gradio, {
+      deepCheck: "gradio",
+      deepCheckApi: "/predict",
+      deepCheckInput: ["world"],
+      deepCheckExpect: "Hello",
+    });
+    gradio.requests.length = 0;
+
+    const result = await check(target);
+
+    assert.equal(result.framework, "gradio");
+    assert.equal(result.version, "5.9.1");
+    assert.deepEqual(result.steps, ["/config", "/gradio_api/call/predict"]);
+    const post = gradio.requests.find((request) => request.method === "POST");
+    assert.deepEqual(JSON.parse(post!.body), { data: ["world"] });
+    assert.ok(gradio.requests.every((request) => request.url.includes("__sign=jwt")));
+  });
+
+  it("gradio：输出不包含 deepCheckExpect 时失败", async () => {
+    const target = targetFor(gradio, {
+      deepCheck: "gradio",
+      deepCheckApi: "predict",
+      deepCheckExpect: "Goodbye",
+    });
+
+    await assert.rejects(check(target), (error: unknown) =>
+      error instanceof DeepCheckError && /不包含 "Goodbye"/.test(error.message)
+    );
+  });
+
+  it("gradio：结果流返回 error 或未返回 complete 就结束时失败", async () => {
+    await assert.rejects(
+      check(targetFor(gradio, { deepCheck: "gradio", deepCheckApi: "broken" })),
+      (error: unknown) => error instanceof DeepCheckError && /返回错误：未知错误/.test(error.message),
+    );
+    await assert.rejects(
+      check(targetFor(gradio, { deepCheck: "gradio", deepCheckApi: "truncated" })),
+      (error: unknown) => error instanceof DeepCheckError && /结果流意外结束/.test(error.message),
+    );
+  });
+
+  it("auto：识别 Gradio，未配置接口时打开队列心跳", async () => {
+    const result = await check(targetFor(gradio, { deepCheck: "auto" }));
+
+    assert.equal(result.framework, "gradio");
+    assert.deepEqual(result.steps, ["/config", "/gradio_api/heartbeat"]);
+  });
+
+  it("auto：/config 不可用时识别 Streamlit 并建立 WebSocket 会话", async () => {
+    const result = await check(targetFor(streamlit, { deepCheck: "auto" }));
+
+    assert.equal(result.framework, "streamlit");
+    assert.deepEqual(result.steps, ["/_stcore/health", "/_stcore/stream"]);
+  });
+
+  it("streamlit：不是 Streamlit 应用时失败", async () => {
+    await assert.rejects(
+      check(targetFor(gradio, { deepCheck: "streamlit" })),
+      (error: unknown) => error instanceof DeepCheckError && /健康检查失败/.test(error.message),
+    );
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * 测试共用的辅助函数：本地模拟服务与测试目标
+ */
+
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import type { ConfigLayer } from "../src/config-schema.js";
+import { loadConfig } from "../src/config.js";
+import { createTarget, type Target } from "../src/target.js";
+
+export interface TestServer {
+  // 如 http://127.0.0.1:12345
+  url: string;
+  // 底层服务，可用于监听 upgrade 等事件
+  server: Server;
+  // 收到的请求，按顺序记录
+  requests: { method: string; url: string; headers: IncomingMessage["headers"]; body: string }[];
+  close(): Promise<void>;
+}
+
+/**
+ * 在随机端口启动本地 HTTP 服务，请求体读完后再交给 handler
+ */
+export async function startServer(
+  handler: (request: IncomingMessage, response: ServerResponse, body: string) => void,
+): Promise<TestServer> {
+  const requests: TestServer["requests"] = [];
+  const server = createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on("data", (chunk: Buffer) => chunks.push(chunk));
+    request.on("end", () => {
+      const body = Buffer.concat(chunks).toString("utf-8");
+      requests.push({
+        method: request.method ?? "GET",
+        url: request.url ?? "/",
+        headers: request.headers,
+        body,
+      });
+      handler(request, response, body);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    server,
+    requests,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+/**
+ * 返回 JSON 响应
+ */
+export function sendJson(response: ServerResponse, statusCode: number, data: unknown): void {
+  response.writeHead(statusCode, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(data));
+}
+
+/**
+ * 按与命令行参数相同的方式补齐默认值，创建一个测试目标
+ */
+export function createTestTarget(overrides: ConfigLayer): Target {
+  const config = loadConfig(null, {
+    spaceUrl: "https://huggingface.co/spaces/owner/demo",
+    cookie: "session=test",
+    ...overrides,
+  });
+  return createTarget(config.targets[0]);
+}
@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, describe, it } from "node:test";
+import {
+  configureHistory,
+  getHistoryStats,
+  readHistory,
+  recordCycle,
+} from "../src/history.js";
+import { createTestTarget } from "./helpers.js";
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * 生成一行 cycle 记录
+ */
+function cycleLine(time: number, result = "up"): string {
+  return JSON.stringify({
+    kind: "cycle",
+    time: new Date(time).toISOString(),
+    target: "demo",
+    result,
+    durationMs: 100,
+  });
+}
+
+describe("history", () => {
+  const dir = mkdtempSync(join(tmpdir(), "hf-keepalive-history-"));
+  const target = createTestTarget({ name: "demo" });
+
+  after(async () => {
+    await configureHistory({ file: null, retention: 0 });
+    await target.dispatcher.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("逐行读取时间窗口内的记录，跳过空行与半行", async () => {
+    const file = join(dir, "read.jsonl");
+    const now = Date.now();
+    writeFileSync(
+      file,
+      [cycleLine(now - 2 * HOUR), "", cycleLine(now - 1000), '{"kind":"cyc'].join("\n"),
+    );
+
+    const records = await readHistory(file, now - HOUR);
+    assert.equal(records.length, 1);
+    assert.equal(records[0].time, new Date(now - 1000).toISOString());
+    assert.deepEqual(await readHistory(join(dir, "missing.jsonl"), 0), []);
+  });
+
+  it("清理过期记录，清理期间追加的记录在完成后写入", async () => {
+    const file = join(dir, "prune.jsonl");
+    const now = Date.now();
+    const lines = [
+      ...Array.from({ length: 1000 }, (_, i) => cycleLine(now - 3 * HOUR + i)),
+      cycleLine(now - 1000, "down"),
+    ];
+    writeFileSync(file, lines.map((line) => `${line}\n`).join(""));
+
+    const pruned = configureHistory({ file, retention: HOUR });
+    recordCycle(target, { result: "up", durationMs: 200 });
+    await pruned;
+
+    const kept = readFileSync(file, "utf-8").split("\n").filter(Boolean);
+    assert.equal(kept.length, 2);
+    assert.equal(JSON.parse(kept[0]).result, "down");
+    assert.equal(JSON.parse(kept[1]).durationMs, 200);
+
+    const stats = await getHistoryStats(HOUR);
+    assert.equal(stats?.[0].cycles, 2);
+    assert.equal(stats?.[0].uptimePercent, 50);
+  });
+
+  it("未配置历史文件时统计返回 null", async () => {
+    await configureHistory({ file: null, retention: HOUR });
+    assert.equal(await getHistoryStats(HOUR), null);
+  });
+});
@@ -0,0 +1,115 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { getApplicableCookies } from "../src/cookie-jar.js";
+import { refreshHubCredentials, restartSpace } from "../src/hub-auth.js";
+import type { Target } from "../src/target.js";
+import { createTestTarget, sendJson, startServer, type TestServer } from "./helpers.js";
+
+const HOST = "https://owner-demo.hf.space";
+
+/**
+ * 生成只含 exp 声明的 JWT（签名部分无意义）
+ */
+function makeJwt(expiresAt: number): string {
+  const payload = Buffer.from(JSON.stringify({ exp: Math.floor(expiresAt / 1000) }))
+    .toString("base64url");
+  return `eyJhbGciOiJub25lIn0.${payload}.sig`;
+}
+
+describe("hub-auth", () => {
+  let server: TestServer;
+  let target: Target;
+  // 模拟 Hub 的状态：JWT 接口返回的状态码与令牌
+  let jwtStatus: number;
+  let jwt: string;
+  let expiresAt: number;
+
+  before(async () => {
+    server = await startServer((request, response) => {
+      if (request.headers.authorization !== "Bearer hf_test") {
+        sendJson(response, 401, { error: "Invalid credentials" });
+      } else if (request.url === "/api/spaces/owner/demo/jwt") {
+        sendJson(response, jwtStatus, jwtStatus === 200 ? { token: jwt } : { error: "forbidden" });
+      } else if (request.url === "/api/spaces/owner/demo") {
+        sendJson(response, 200, { id: "owner/demo", subdomain: "owner-demo" });
+      } else if (request.url === "/api/spaces/owner/demo/restart") {
+        sendJson(response, jwtStatus, {});
+      } else {
+        sendJson(response, 404, {});
+      }
+    });
+  });
+
+  after(() => server.close());
+
+  beforeEach(async () => {
+    await target?.dispatcher.close();
+    target = createTestTarget({ hfToken: "hf_test", hubEndpoint: server.url });
+    server.requests.length = 0;
+    jwtStatus = 200;
+    expiresAt = Math.floor(Date.now() / 1000) * 1000 + 60 * 60 * 1000;
+    jwt = makeJwt(expiresAt);
+  });
+
+  after(() => target.dispatcher.close());
+
+  it("获取 JWT，拼出带 __sign 的地址并写入 spaces-jwt Cookie", async () => {
+    await refreshHubCredentials(target);
+
+    const credentials = target.hubCredentials;
+    assert.ok(credentials);
+    assert.equal(credentials.jwt, jwt);
+    assert.equal(credentials.signedUrl, `${HOST}/?__sign=${jwt}`);
+    assert.equal(credentials.expiresAt, expiresAt);
+
+    const cookies = getApplicableCookies(target.cookieStorage, `${HOST}/`, Date.now());
+    assert.deepEqual(cookies.map((cookie) => [cookie.name, cookie.value]), [["spaces-jwt", jwt]]);
+    assert.ok(server.requests.every((request) => request.headers.authorization === "Bearer hf_test"));
+  });
+
+  it("令牌无效（401）时不设置凭据", async () => {
+    await target.dispatcher.close();
+    target = createTestTarget({ hfToken: "hf_wrong", hubEndpoint: server.url });
+    await refreshHubCredentials(target);
+
+    assert.equal(target.hubCredentials, null);
+    assert.equal(target.cookieStorage.length, 0);
+  });
+
+  it("无权访问（403）时保留上一次的凭据", async () => {
+    await refreshHubCredentials(target);
+    const previous = target.hubCredentials;
+    assert.ok(previous);
+
+    jwtStatus = 403;
+    previous.fetchedAt -= target.config.hubRefreshInterval;
+    await refreshHubCredentials(target);
+
+    assert.equal(target.hubCredentials, previous);
+  });
+
+  it("JWT 未到刷新时间时不请求 Hub，即将过期时重新获取", async () => {
+    await refreshHubCredentials(target);
+    await refreshHubCredentials(target);
+    assert.equal(server.requests.length, 2);
+
+    // JWT 两分钟后过期，落在提前刷新的时间窗口内
+    target.hubCredentials!.expiresAt = Date.now() + 2 * 60 * 1000;
+    jwt = makeJwt(Date.now() + 2 * 60 * 60 * 1000);
+    await refreshHubCredentials(target);
+
+    assert.equal(server.requests.length, 4);
+    assert.equal(target.hubCredentials?.jwt, jwt);
+  });
+
+  it("restartSpace 调用重启接口，非 200 时抛出", async () => {
+    await restartSpace(target);
+    assert.deepEqual(
+      server.requests.map((request) => `${request.method} ${request.url}`),
+      ["POST /api/spaces/owner/demo/restart"],
+    );
+
+    jwtStatus = 403;
+    await assert.rejects(restartSpace(target), /HTTP 403/);
+  });
+});
@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { extractIframeUrl, getConventionalAppUrl } from "../src/iframe.js";
+import { createLogger } from "../src/logger.js";
+
+const SPACE_URL = "https://huggingface.co/spaces/Owner/My_Demo";
+const log = createLogger();
+
+/**
+ * 生成带 data-props 的页面组件
+ */
+function propsElement(props: unknown): string {
+  return `<div data-props='${JSON.stringify(props)}'></div>`;
+}
+
+describe("getConventionalAppUrl", () => {
+  it("owner 与 name 中的 /、_、. 替换为 -，并转为小写", () => {
+    assert.equal(getConventionalAppUrl(SPACE_URL), "https://owner-my-demo.hf.space/");
+    assert.equal(getConventionalAppUrl("https://huggingface.co/models"), null);
+  });
+});
+
+describe("extractIframeUrl", () => {
+  it("优先使用 space-iframe", () => {
+    const html = '<iframe class="space-iframe" src="https://owner-my-demo.hf.space/?__sign=a"></iframe>';
+
+    assert.deepEqual(extractIframeUrl(html, SPACE_URL, log), {
+      url: "https://owner-my-demo.hf.space/?__sign=a",
+      source: "iframe",
+    });
+  });
+
+  it("只接受指向本 Space 应用域名的 iframe", () => {
+    const html = `
+      <iframe src="https://other-space.hf.space/"></iframe>
+      <iframe src="https://Owner-My-Demo.hf.space/app"></iframe>`;
+
+    assert.equal(extractIframeUrl(html, SPACE_URL, log)?.url, "https://Owner-My-Demo.hf.space/app");
+  });
+
+  it("页面数据中优先选择本 Space 带 __sign 的地址，忽略其他 Space", () => {
+    const html = [
+      propsElement({ related: ["https://other-space.hf.space/?__sign=x"] }),
+      propsElement({ space: { host: "https://owner-my-demo.hf.space" } }),
+      `<script type="application/json">${
+        JSON.stringify({ src: "https://owner-my-demo.hf.space/?__sign=b" })
+      }</script>`,
+    ].join("");
+
+    assert.deepEqual(extractIframeUrl(html, SPACE_URL, log), {
+      url: "https://owner-my-demo.hf.space/?__sign=b",
+      source: "props",
+    });
+  });
+
+  it("页面中只有其他 Space 的地址时返回 null", () => {
+    const html = [
+      '<iframe src="https://owner-my-demo-v2.hf.space/"></iframe>',
+      propsElement({ url: "https://evil.hf.space/?__sign=x" }),
+    ].join("");
+
+    assert.equal(extractIframeUrl(html, SPACE_URL, log), null);
+  });
+});
@@ -0,0 +1,36 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { validateNotifiers } from "../src/notifiers/index.js";
+
+describe("validateNotifiers", () => {
+  it("配置完整时没有错误", () => {
+    assert.deepEqual(
+      validateNotifiers([
+        { type: "webhook", url: "https://example.com/hook" },
+        { type: "telegram", botToken: "123:abc", chatId: "42", on: "always" },
+      ]),
+      [],
+    );
+  });
+
+  it("报告缺少的必填字段与无效的触发模式", () => {
+    const notifiers = [{ type: "gotify", url: "https://gotify.example.com", on: "sometimes" }];
+
+    assert.deepEqual(validateNotifiers(notifiers), [
+      "notifiers[0].token 未设置",
+      'notifiers[0].on 必须是 "always" 或 "transition"',
+    ]);
+  });
+
+  it("原型链上的属性名不是有效的类型", () => {
+    assert.deepEqual(validateNotifiers([{ type: "toString" }, { type: "constructor" }, {}]), [
+      'notifiers[0].type 无效："toString"',
+      'notifiers[1].type 无效："constructor"',
+      "notifiers[2].type 无效：undefined",
+    ]);
+  });
+
+  it("notifiers 不是数组时报错", () => {
+    assert.deepEqual(validateNotifiers({ type: "webhook" }), ["notifiers 必须是数组"]);
+  });
+});
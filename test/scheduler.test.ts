@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { drainTargets, startTarget, triggerTarget } from "../src/scheduler.js";
+import type { Target } from "../src/target.js";
+import { createTestTarget, sendJson, startServer, type TestServer } from "./helpers.js";
+
+// Webhook 的响应延迟，期间取消信号不会让这一轮结束
+const HOOK_DELAY = 800;
+
+describe("drainTargets", () => {
+  let server: TestServer;
+  let target: Target;
+  let hookReceived: Promise<void>;
+
+  before(async () => {
+    let onHook: () => void;
+    hookReceived = new Promise((resolve) => (onHook = resolve));
+    server = await startServer((request, response) => {
+      if (request.url === "/hook") {
+        onHook();
+        setTimeout(() => sendJson(response, 200, {}), HOOK_DELAY);
+      } else {
+        response.end("ok");
+      }
+    });
+    target = createTestTarget({
+      spaceUrl: "",
+      targetUrl: server.url,
+      notifiers: [{ type: "webhook", url: `${server.url}/hook`, on: "always" }],
+    });
+  });
+
+  after(async () => {
+    await target.dispatcher.close();
+    await server.close();
+  });
+
+  it("超时取消请求后，在宽限期内等待进行中的一轮收尾", async () => {
+    startTarget(target);
+    assert.equal(triggerTarget(target), true);
+    await hookReceived;
+
+    const start = Date.now();
+    assert.equal(await drainTargets([target], 100), false);
+    const elapsed = Date.now() - start;
+
+    // 等到 Webhook 响应、本轮结束才返回，而不是等满宽限期
+    assert.ok(elapsed >= HOOK_DELAY - 200, `只等待了 ${elapsed}ms`);
+    assert.ok(elapsed < 2000, `等待了 ${elapsed}ms`);
+    assert.equal(server.requests.filter((request) => request.url === "/hook").length, 1);
+  });
+});
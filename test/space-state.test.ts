@@ -0,0 +1,32 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { detectSpaceStateFromHtml, SpaceState } from "../src/space-state.js";
+
+describe("detectSpaceStateFromHtml", () => {
+  it("优先使用 data-props 中的 runtime.stage", () => {
+    const props = JSON.stringify({ space: { runtime: { stage: "RUNNING" } } });
+    const html = `<div data-props='${props}'></div><span>Runtime error</span>`;
+
+    assert.equal(detectSpaceStateFromHtml(html), SpaceState.Running);
+  });
+
+  it("识别状态徽章与休眠提示", () => {
+    assert.equal(
+      detectSpaceStateFromHtml("<header><span class='tag'> Runtime error </span></header>"),
+      SpaceState.RuntimeError,
+    );
+    assert.equal(
+      detectSpaceStateFromHtml("<h2>This Space is sleeping due to inactivity.</h2>"),
+      SpaceState.Sleeping,
+    );
+  });
+
+  it("README 与正文中提到的关键词不影响识别", () => {
+    const html = `
+      <div class="prose"><span>Runtime error</span></div>
+      <article><p>Build error</p></article>
+      <p>If you see a Runtime error, restart the Space.</p>`;
+
+    assert.equal(detectSpaceStateFromHtml(html), SpaceState.Unknown);
+  });
+});